@@ -0,0 +1,328 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import { mkdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { basename, dirname, extname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { StaticDiagram } from '../src/components/DiagramShapes';
+import {
+  applyView,
+  buildWorkspaceModel,
+  DIAGRAM_TEXT_FORMATS,
+  diffColors,
+  diffModels,
+  formatGradeHTML,
+  formatGradeJSON,
+  formatRelationalSchema,
+  generateDiagramText,
+  GRADE_CATEGORIES,
+  gradeModel,
+  generateSQL,
+  importDBML,
+  importMermaid,
+  importSQL,
+  layoutDocument,
+  layoutWorkspace,
+  loadWorkspace,
+  mapToRelational,
+  NOTATIONS,
+  parseDocument,
+  parseSynonyms,
+  printDocument,
+  SQL_DIALECTS,
+  type DiagramTextFormat,
+  type Diagnostic,
+  type DiffStatus,
+  type GradeCategoryId,
+  type Notation,
+  type SqlDialect,
+} from '../src/eer';
+
+/**
+ * CLI de EER Studio: valida, dibuja, distribuye y exporta archivos .eer sin
+ * navegador, con el mismo parser y las mismas formas que la aplicación.
+ */
+const USAGE = `Uso: eer <comando> [opciones]
+
+Comandos:
+  validate <archivo.eer...>        Muestra errores y avisos; termina con código 1 si hay errores
+      --strict                     Los avisos también hacen fallar la validación
+      --no-rules                   Sólo sintaxis, sin reglas semánticas
+  render <archivo.eer...>          Dibuja el diagrama en SVG o PNG
+      -o, --output <ruta>          Archivo de salida o directorio (varios archivos)
+      -f, --format svg|png         Formato (por defecto, el de la extensión de salida o svg)
+      --scale <n>                  Escala del PNG (por defecto 2)
+      --background <color|none>    Fondo (por defecto blanco)
+      --layout                     Distribuye automáticamente antes de dibujar
+      --notation <notación>        ${NOTATIONS.map(n => n.id).join('|')} (por defecto chen)
+      --view <nombre>              Dibuja sólo esa vista (view NOMBRE) con sus posiciones
+  layout <archivo.eer>             Calcula coordenadas y escribe el código resultante
+      -o, --output <ruta>          Archivo de salida (por defecto, salida estándar)
+      -w, --write                  Sobrescribe el archivo de entrada
+      --keep                       Conserva los nodos que ya tienen coordenadas
+  export <archivo.eer>             Exporta a otros formatos
+      -f, --format <formato>       sql|relational|${Object.keys(DIAGRAM_TEXT_FORMATS).join('|')}
+      --dialect <dialecto>         ${Object.keys(SQL_DIALECTS).join('|')} (por defecto postgresql)
+      -o, --output <ruta>          Archivo de salida (por defecto, salida estándar)
+  import <archivo>                 Genera un .eer distribuido desde SQL (.sql), Mermaid (.mmd, .md) o DBML (.dbml)
+      -o, --output <ruta>          Archivo de salida (por defecto, salida estándar)
+  diff <antes.eer> <después.eer>   Cambios del modelo entre dos versiones; código 1 si hay diferencias
+      --moves                      Informa también de los nodos que sólo se han movido
+      -o, --output <ruta.svg>      Dibuja el diagrama combinado con los cambios en color
+  grade <solución.eer> <entrega.eer...>  Corrige cada entrega y muestra su nota
+      -o, --output <ruta>          Informe por entrega: archivo o directorio (varias entregas)
+      -f, --format html|json       Formato del informe (por defecto, el de la extensión o html)
+      --weights <apartado=peso,...> ${Object.keys(GRADE_CATEGORIES).join('|')}
+      --synonyms <archivo>         Nombres equivalentes, una línea por grupo (CLIENTE, COMPRADOR)
+      --threshold <0-1>            Parecido mínimo entre nombres distintos (por defecto 0.8)
+`;
+
+class CliError extends Error {}
+
+const readInput = (file: string) => {
+  try {
+    return readFileSync(file, 'utf8');
+  } catch {
+    throw new CliError(`No se puede leer '${file}'.`);
+  }
+};
+
+// El archivo y los que incluye (include "otro.eer"), con las rutas relativas a cada uno
+const readWorkspace = (file: string) => loadWorkspace(file, readInput(file), path => {
+  try {
+    return readFileSync(path, 'utf8');
+  } catch {
+    return undefined;
+  }
+});
+
+const writeOutput = (file: string | undefined, content: string | Uint8Array) => {
+  if (!file) {
+    process.stdout.write(content);
+    return;
+  }
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, content);
+};
+
+const formatDiagnostic = (file: string, d: Diagnostic) =>
+  `${d.file ?? file}:${d.line}:${d.column}: ${d.severity === 'error' ? 'error' : 'aviso'}: ${d.message}${d.rule ? ` [${d.rule}]` : ''}`;
+
+const isDirectory = (path: string) => {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+};
+
+const validate = (files: string[], values: { strict?: boolean; 'no-rules'?: boolean }) => {
+  let failed = false;
+  files.forEach(file => {
+    const diagnostics = buildWorkspaceModel(readWorkspace(file)).diagnostics.filter(d => !values['no-rules'] || !d.rule);
+    diagnostics.forEach(d => console.log(formatDiagnostic(file, d)));
+    const errors = diagnostics.filter(d => d.severity === 'error').length;
+    if (errors > 0 || (values.strict && diagnostics.length > 0)) failed = true;
+    console.error(`${file}: ${errors} error(es), ${diagnostics.length - errors} aviso(s)`);
+  });
+  return failed ? 1 : 0;
+};
+
+const render = async (files: string[], values: { output?: string; format?: string; scale?: string; background?: string; layout?: boolean; notation?: string; view?: string }) => {
+  const format = values.format ?? (values.output && /\.(svg|png)$/i.test(values.output) ? extname(values.output).slice(1).toLowerCase() : 'svg');
+  if (format !== 'svg' && format !== 'png') throw new CliError(`Formato de imagen desconocido: '${format}'.`);
+  const toDirectory = !!values.output && (files.length > 1 || isDirectory(values.output) || values.output.endsWith('/'));
+  const scale = Number(values.scale ?? 2);
+  if (!(scale > 0)) throw new CliError(`Escala no válida: '${values.scale}'.`);
+  const background = values.background === 'none' ? undefined : (values.background ?? '#ffffff');
+  const notation = (values.notation ?? 'chen') as Notation;
+  if (!NOTATIONS.some(n => n.id === notation)) throw new CliError(`Notación desconocida: '${values.notation}'.`);
+
+  for (const file of files) {
+    const workspace = readWorkspace(file);
+    if (values.layout) workspace.doc = layoutDocument(workspace.doc);
+    const model = buildWorkspaceModel(workspace);
+    model.diagnostics.filter(d => d.severity === 'error').forEach(d => console.error(formatDiagnostic(file, d)));
+    const view = values.view === undefined ? undefined : model.views.find(v => v.name === values.view);
+    if (values.view !== undefined && !view) throw new CliError(`'${file}' no tiene la vista '${values.view}'.`);
+    const { nodes, links } = view ? applyView(model, view) : model;
+
+    const svg = renderToStaticMarkup(<StaticDiagram nodes={nodes} links={links} notation={notation} background={background} />);
+    const name = `${basename(file, extname(file))}.${format}`;
+    const output = toDirectory ? join(values.output!, name) : values.output ?? join(dirname(file), name);
+    if (format === 'svg') {
+      writeOutput(output, `<?xml version="1.0" encoding="UTF-8"?>\n${svg}\n`);
+    } else {
+      // Sólo se carga el rasterizador si hace falta
+      const { Resvg } = await import('@resvg/resvg-js');
+      const png = new Resvg(svg, { fitTo: { mode: 'zoom', value: scale }, font: { loadSystemFonts: true, defaultFontFamily: 'sans-serif' } }).render().asPng();
+      writeOutput(output, png);
+    }
+    console.error(`${file} -> ${output}`);
+  }
+  return 0;
+};
+
+// Los nodos de los archivos incluidos se tienen en cuenta pero sólo se escriben las coordenadas del principal
+const layout = (file: string, values: { output?: string; write?: boolean; keep?: boolean }) => {
+  const code = printDocument(layoutWorkspace(readWorkspace(file), parseDocument(readInput(file)), { keepExisting: values.keep }));
+  writeOutput(values.write ? file : values.output, code);
+  return 0;
+};
+
+const exportFile = (file: string, values: { output?: string; format?: string; dialect?: string }) => {
+  const { nodes, links } = buildWorkspaceModel(readWorkspace(file));
+  const schema = mapToRelational(nodes, links);
+  switch (values.format) {
+    case 'sql': {
+      const dialect = (values.dialect ?? 'postgresql') as SqlDialect;
+      if (!(dialect in SQL_DIALECTS)) throw new CliError(`Dialecto SQL desconocido: '${values.dialect}'.`);
+      writeOutput(values.output, generateSQL(schema, dialect));
+      return 0;
+    }
+    case 'relational':
+      writeOutput(values.output, formatRelationalSchema(schema));
+      return 0;
+    case 'mermaid':
+    case 'plantuml':
+    case 'dbml': {
+      // Lo que el formato no puede representar tal cual se avisa por la salida de error
+      const { code, warnings } = generateDiagramText(nodes, links, values.format as DiagramTextFormat);
+      writeOutput(values.output, code);
+      warnings.forEach(w => console.error(`aviso: ${w}`));
+      return 0;
+    }
+    default:
+      throw new CliError(values.format ? `Formato de exportación desconocido: '${values.format}'.` : 'Indica el formato con --format.');
+  }
+};
+
+const IMPORTERS: Record<string, (text: string) => { code: string; warnings: string[] }> = {
+  '.sql': importSQL,
+  '.mmd': importMermaid,
+  '.mermaid': importMermaid,
+  '.md': importMermaid,
+  '.dbml': importDBML,
+};
+
+const importFile = (file: string, values: { output?: string }) => {
+  const importer = IMPORTERS[extname(file).toLowerCase()];
+  if (!importer) throw new CliError(`No se sabe importar '${file}': usa .sql, .mmd, .md o .dbml.`);
+  const { code, warnings } = importer(readInput(file));
+  writeOutput(values.output, code);
+  warnings.forEach(w => console.error(`aviso: ${w}`));
+  return 0;
+};
+
+const DIFF_MARKS: Record<DiffStatus, string> = { added: '+', removed: '-', renamed: '~', changed: '~', moved: '>' };
+
+const diff = (files: string[], values: { output?: string; moves?: boolean; notation?: string }) => {
+  if (files.length !== 2) throw new CliError('Indica las dos versiones que se comparan.');
+  const [before, after] = files.map(file => buildWorkspaceModel(readWorkspace(file)));
+  const result = diffModels(before, after, { includeMoves: values.moves });
+  result.changes.forEach(change => console.log(`${DIFF_MARKS[change.status]} ${change.message}`));
+  if (values.output) {
+    const notation = (values.notation ?? 'chen') as Notation;
+    if (!NOTATIONS.some(n => n.id === notation)) throw new CliError(`Notación desconocida: '${values.notation}'.`);
+    const svg = renderToStaticMarkup(<StaticDiagram nodes={result.nodes} links={result.links} notation={notation} background="#ffffff" {...diffColors(result)} />);
+    writeOutput(values.output, `<?xml version="1.0" encoding="UTF-8"?>\n${svg}\n`);
+  }
+  console.error(`${result.changes.length} cambio(s)`);
+  return result.changes.length > 0 ? 1 : 0;
+};
+
+const grade = (files: string[], values: { output?: string; format?: string; weights?: string; synonyms?: string; threshold?: string }) => {
+  const [referenceFile, ...submissions] = files;
+  if (submissions.length === 0) throw new CliError('Indica la solución y al menos una entrega.');
+  const format = values.format ?? (values.output && /\.(html|json)$/i.test(values.output) ? extname(values.output).slice(1).toLowerCase() : 'html');
+  if (format !== 'html' && format !== 'json') throw new CliError(`Formato de informe desconocido: '${format}'.`);
+  const weights: Partial<Record<GradeCategoryId, number>> = {};
+  values.weights?.split(',').forEach(entry => {
+    const [id, weight] = entry.split('=').map(part => part.trim());
+    if (!(id in GRADE_CATEGORIES) || !(Number(weight) >= 0)) throw new CliError(`Peso no válido: '${entry}'.`);
+    weights[id as GradeCategoryId] = Number(weight);
+  });
+  const threshold = values.threshold === undefined ? undefined : Number(values.threshold);
+  if (threshold !== undefined && !(threshold >= 0 && threshold <= 1)) throw new CliError(`Umbral no válido: '${values.threshold}'.`);
+  const options = { weights, threshold, synonyms: values.synonyms ? parseSynonyms(readInput(values.synonyms)) : undefined };
+  const toDirectory = !!values.output && (submissions.length > 1 || isDirectory(values.output) || values.output.endsWith('/'));
+
+  const reference = buildWorkspaceModel(readWorkspace(referenceFile));
+  submissions.forEach(file => {
+    const report = gradeModel(reference, buildWorkspaceModel(readWorkspace(file)), options);
+    const student = basename(file, extname(file));
+    console.log(`${file}\t${report.score}`);
+    if (!values.output) return;
+    const output = toDirectory ? join(values.output, `${student}.${format}`) : values.output;
+    writeOutput(output, format === 'html' ? formatGradeHTML(report, student) : formatGradeJSON(report, student));
+  });
+  return 0;
+};
+
+const main = async (argv: string[]) => {
+  const [command, ...rest] = argv;
+  const { values, positionals } = parseArgs({
+    args: rest,
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      format: { type: 'string', short: 'f' },
+      scale: { type: 'string' },
+      background: { type: 'string' },
+      dialect: { type: 'string' },
+      notation: { type: 'string' },
+      view: { type: 'string' },
+      weights: { type: 'string' },
+      synonyms: { type: 'string' },
+      threshold: { type: 'string' },
+      layout: { type: 'boolean' },
+      write: { type: 'boolean', short: 'w' },
+      keep: { type: 'boolean' },
+      moves: { type: 'boolean' },
+      strict: { type: 'boolean' },
+      'no-rules': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (!command || command === 'help' || command === '--help' || command === '-h' || values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals.length === 0) throw new CliError(`Falta el archivo de entrada.\n\n${USAGE}`);
+
+  switch (command) {
+    case 'validate':
+      return validate(positionals, values);
+    case 'render':
+      return render(positionals, values);
+    case 'layout':
+      return layout(positionals[0], values);
+    case 'export':
+      return exportFile(positionals[0], values);
+    case 'import':
+      return importFile(positionals[0], values);
+    case 'diff':
+      return diff(positionals, values);
+    case 'grade':
+      return grade(positionals, values);
+    default:
+      throw new CliError(`Comando desconocido: '${command}'.\n\n${USAGE}`);
+  }
+};
+
+main(process.argv.slice(2)).then(
+  code => { process.exitCode = code; },
+  error => {
+    // Errores de uso (o de parseArgs) sin traza; el resto, completos
+    const usage = error instanceof CliError || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS');
+    console.error(usage ? `eer: ${(error as Error).message}` : error);
+    process.exitCode = 2;
+  },
+);
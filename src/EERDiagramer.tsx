@@ -7,34 +7,64 @@
  * This software is provided as-is, without warranty of any kind.
  */
 
-import React, { useState, useEffect, useRef, forwardRef, useImperativeHandle } from 'react';
-import { BookOpen, Code, Share2, HelpCircle, X, Maximize2, ZoomIn, ZoomOut, Info } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback, forwardRef, useImperativeHandle } from 'react';
+import { BookOpen, Code, Share2, HelpCircle, X, Maximize2, ZoomIn, ZoomOut, Info, Table2, Network, Undo2, Redo2 } from 'lucide-react';
+import CodeEditor, { type CodeEditorHandle } from './components/CodeEditor';
+import { DiagramLinks, NodeShape } from './components/DiagramShapes';
+import ProblemsPanel from './components/ProblemsPanel';
+import RelationalSchemaDialog from './components/RelationalSchemaDialog';
+import SqlExportDialog from './components/SqlExportDialog';
+import TextExportDialog from './components/TextExportDialog';
+import ExportDialog from './components/ExportDialog';
+import CompareDialog from './components/CompareDialog';
+import GradingDialog from './components/GradingDialog';
+import Minimap from './components/Minimap';
+import EditPalette, { CardinalityPicker, PALETTE_MIME } from './components/EditPalette';
+import ViewTabs from './components/ViewTabs';
+import { useHistory } from './hooks/useHistory';
+import { appendLine, applyView, buildWorkspaceModel, collapsedRelationships, computeLayout, deleteNodes, formatCoords, getDiagramBounds, importDBML, importMermaid, importSQL, layoutWorkspace, loadWorkspace, NODE_HALF_SIZE, parseDocument, printDocument, NOTATIONS, renameElement, setCoords, setViewCoords, type Diagnostic, type LinkData, type NodeData, type Notation, type ParseResult, type ValidationRule } from './eer';
 
-/**
- * DEFINICIÓN DE TIPOS
- */
-type NodeType = 'entity' | 'weak_entity' | 'relationship' | 'identifying_relationship' | 'attribute' | 'key_attribute' | 'multivalued_attribute' | 'derived_attribute' | 'specialization' | 'union';
-
-interface NodeData {
-  id: string;
-  type: NodeType;
-  label: string;
-  x: number;
-  y: number;
-  meta?: string; // Para 'd', 'o', 'u' en especializaciones
-  lineIndex: number; // Para saber qué línea actualizar
+export interface EERDiagramerHandle {
+  getCode: () => string;
+  setCode: (c: string) => void;
 }
 
-interface LinkData {
-  source: string;
-  target: string;
-  label?: string; // Cardinalidad o Rol
-  style?: 'double' | 'solid'; // Para participación total
+const MIN_SCALE = 0.1;
+const MAX_SCALE = 3;
+const ZOOM_STEP = 1.2; // Factor de los botones de zoom
+
+// Nombre inicial de los elementos creados desde la paleta
+const NEW_ELEMENT_NAMES: Record<string, string> = {
+  ent: 'ENTIDAD',
+  weak_ent: 'DEBIL',
+  rel: 'RELACION',
+  ident_rel: 'IDENTIFICA',
+  att: 'atributo',
+  key_att: 'clave',
+  spec: 'd',
+  union: 'u',
+};
+
+// Archivo abierto con el selector (o el input de respaldo) y su handle para guardarlo en el mismo sitio
+interface OpenedFile {
+  name: string;
+  text: string;
+  handle: unknown | null;
 }
 
-export interface EERDiagramerHandle {
-  getCode: () => string;
-  setCode: (c: string) => void;
+// Lo que se dibuja: el modelo completo o, si existe, la vista con ese nombre
+const shownModel = (model: ParseResult, viewName: string | null) => {
+  const view = model.views.find(v => v.name === viewName);
+  return view ? applyView(model, view) : model;
+};
+
+// El navegador sólo da el nombre de los archivos abiertos: los incluidos se buscan por nombre, sin directorios
+const includeKey = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+// Lo que se deshace y rehace: el código principal y el de los archivos incluidos abiertos (por nombre)
+interface DiagramSnapshot {
+  code: string;
+  includes: ReadonlyMap<string, string>;
 }
 
 const SAMPLE_CODE = `// Ejemplo con coordenadas persistentes
@@ -50,6 +80,8 @@ weak_ent DEPENDIENTE (100, 300)
 key_att Dni -> EMPLEADO (350, 220)
 att Nombre -> EMPLEADO (450, 220)
 derived_att Edad -> EMPLEADO (400, 180)
+key_att NumDep -> DEPARTAMENTO (780, 240)
+key_att NumProy -> PROYECTO (800, 540)
 
 // Relaciones
 rel TRABAJA_PARA (550, 300)
@@ -80,6 +112,9 @@ link d TECNICO
 ent PERSONA (100, 650)
 ent BANCO (300, 650)
 ent EMPRESA (500, 650)
+key_att DniPersona -> PERSONA (40, 590)
+key_att CodBanco -> BANCO (300, 580)
+key_att Cif -> EMPRESA (560, 590)
 
 union u (300, 750)
 link PERSONA u
@@ -90,223 +125,502 @@ ent PROPIETARIO (300, 850)
 link u PROPIETARIO [total]
 `;
 
-/**
- * UTILS
- */
-const COORD_REGEX = /\(\s*(-?\d+),\s*(-?\d+)\s*\)/;
+const AI_PROMPT = `Actúa como un experto en diseño de bases de datos y generador de código para la herramienta "EER Studio". Tu tarea es analizar una descripción en lenguaje natural de un problema de requisitos de datos y convertirla en el código DSL (Domain Specific Language) específico que utiliza EER Studio para generar diagramas.
 
-/**
- * PARSER: Convierte el texto a datos, extrayendo coordenadas si existen
- */
-const parseCode = (code: string) => {
-  const lines = code.split('\n');
-  const newNodes: NodeData[] = [];
-  const newLinks: LinkData[] = [];
-  const existingIds = new Set<string>(); // Para rastrear IDs y evitar duplicados
-  
-  let angle = 0;
-  const radius = 250;
-  const center = { x: 400, y: 300 };
-
-  // Helper para posición por defecto (espiral) si no hay coords
-  const getDefaultPos = () => {
-    angle += 0.6;
-    const r = radius + (angle * 15);
-    return {
-      x: Math.round(center.x + Math.cos(angle) * r),
-      y: Math.round(center.y + Math.sin(angle) * r)
-    };
-  };
+### Reglas de Sintaxis de EER Studio:
 
-  lines.forEach((line, index) => {
-    const cleanLine = line.trim();
-    if (!cleanLine || cleanLine.startsWith('//')) return;
-
-    // Extraer coordenadas si existen
-    let x: number | null = null;
-    let y: number | null = null;
-    const coordMatch = cleanLine.match(COORD_REGEX);
-    if (coordMatch) {
-      x = parseInt(coordMatch[1], 10);
-      y = parseInt(coordMatch[2], 10);
-    }
+1. **Entidades:**
+   - Fuertes: \`ent NOMBRE_ENTIDAD\`
+   - Débiles: \`weak_ent NOMBRE_ENTIDAD\`
+   - (Opcional) Puedes añadir coordenadas: \`ent USUARIO (100, 200)\`
 
-    // Quitar coordenadas para procesar el comando limpio
-    const lineWithoutCoords = cleanLine.replace(COORD_REGEX, '').trim();
-    const parts = lineWithoutCoords.split(/\s+/);
-    const command = parts[0].toLowerCase();
-
-    // Comandos de Nodos
-    if (['ent', 'weak_ent', 'rel', 'ident_rel', 'att', 'key_att', 'derived_att', 'multivalued_attribute'].includes(command)) {
-      const label = parts[1];
-      
-      // Generar ID único. 
-      const isAttribute = ['att', 'key_att', 'derived_att', 'multivalued_attribute'].includes(command);
-      let id = label;
-      
-      if (isAttribute || existingIds.has(id)) {
-        id = `${label}_${index}`;
-      }
-      existingIds.add(id);
-      
-      let finalX = x;
-      let finalY = y;
-      
-      if (finalX === null || finalY === null) {
-        const def = getDefaultPos();
-        finalX = def.x;
-        finalY = def.y;
-      }
+2. **Atributos:**
+   - Simple: \`att NombreAtributo -> ENTIDAD\`
+   - Clave (identificador): \`key_att NombreAtributo -> ENTIDAD\`
+   - Clave parcial (de una entidad débil): \`partial_key_att NombreAtributo -> ENTIDAD_DEBIL\`
+   - Derivado: \`derived_att NombreAtributo -> ENTIDAD\`
+   - Multivaluado: \`multivalued_att NombreAtributo -> ENTIDAD\`
+   - De una relación (no clave; no en relaciones identificativas): \`att Horas -> TRABAJA_EN\`
+   - Compuesto: se definen sus subatributos apuntando a \`ENTIDAD.Atributo\`:
+     \`\`\`
+     att Direccion -> CLIENTE
+     att Calle -> CLIENTE.Direccion
+     att CP -> CLIENTE.Direccion
+     \`\`\`
 
-      let type: NodeType = 'entity';
-      if (command === 'weak_ent') type = 'weak_entity';
-      if (command === 'rel') type = 'relationship';
-      if (command === 'ident_rel') type = 'identifying_relationship';
-      if (command === 'att') type = 'attribute';
-      if (command === 'key_att') type = 'key_attribute';
-      if (command === 'derived_att') type = 'derived_attribute';
-      if (command === 'multivalued_attribute') type = 'multivalued_attribute';
+3. **Relaciones:**
+   - Normal: \`rel NOMBRE_RELACION\`
+   - Identificativa (para entidades débiles): \`ident_rel NOMBRE_RELACION\`
 
-      newNodes.push({ id, type, label, x: finalX, y: finalY, lineIndex: index });
+4. **Conexiones (Links) y Cardinalidad:**
+   - Sintaxis: \`link ENTIDAD RELACION "CARDINALIDAD"\`
+   - Cardinalidades: "1", "N", "M"
+   - Participación Total: \`link EMPLEADO TRABAJA_EN "N" [total]\`
+   - Restricción (min,max) en lugar de la cardinalidad: \`link EMPLEADO TRABAJA_EN (1,1)\` (cada empleado trabaja en exactamente un departamento)
+   - Relaciones ternarias o n-arias: un \`link\` por participante (\`link PROVEEDOR SUMINISTRA "1"\`, \`link PIEZA SUMINISTRA "N"\`, \`link PROYECTO SUMINISTRA "M"\`); no mezcles cardinalidades 1/N/M con restricciones (min,max) en la misma relación
+   - Roles (relaciones recursivas, la misma entidad conectada dos veces): \`link EMPLEADO SUPERVISA "1" role:supervisor\` y \`link EMPLEADO SUPERVISA "N" role:supervisado\`
 
-      // Atajo para atributo: att Nombre -> Entidad
-      if (parts[2] === '->' && parts[3]) {
-        newLinks.push({ source: parts[3], target: id, label: '', style: 'solid' });
-      }
-    }
-    // Especialización / Unión
-    else if (['spec', 'union'].includes(command)) {
-      const meta = parts[1] || (command === 'union' ? 'u' : 'd'); 
-      
-      let id = parts[1] || `spec_${index}`;
-      if (existingIds.has(id)) {
-        id = `${id}_${index}`;
-      }
-      existingIds.add(id);
+5. **Jerarquías (Especialización/Generalización):**
+   - Definir especialización: \`spec TIPO -> SUPERCLASE\`
+     - TIPO: 'd' (disjunta) o 'o' (solapada)
+     - Es total por defecto; si la superclase puede no pertenecer a ninguna subclase: \`spec o -> SUPERCLASE [partial]\`
+   - Definida por atributo: \`spec d on Puesto -> EMPLEADO\`, con el valor de cada subclase en su conexión: \`link d SECRETARIA "Secretaria"\`
+   - Conectar subclases: \`link TIPO SUBCLASE\`
+   - Ejemplo:
+     \`\`\`
+     spec d -> EMPLEADO
+     link d SECRETARIA
+     link d INGENIERO
+     \`\`\`
 
-      let finalX = x;
-      let finalY = y;
+6. **Uniones (Categorías):**
+   - Definir unión: \`union u\`
+   - Conectar superclases: \`link SUPERCLASE u\`
+   - Conectar categoría: \`link u CATEGORIA\`
 
-      if (finalX === null || finalY === null) {
-        const def = getDefaultPos();
-        finalX = def.x;
-        finalY = def.y;
-      }
+### Ejemplo:
 
-      newNodes.push({ 
-        id, 
-        type: command === 'union' ? 'union' : 'specialization', 
-        label: meta, 
-        x: finalX, 
-        y: finalY, 
-        meta,
-        lineIndex: index
-      });
+**Input:** "Un empleado trabaja en un departamento. El empleado tiene DNI (clave) y Nombre. El departamento tiene un Nombre."
 
-      if (parts[2] === '->' && parts[3]) {
-        // Conexión doble a la superclase
-        newLinks.push({ source: parts[3], target: id, label: '', style: 'double' });
-      }
-    }
-    // Conexiones
-    else if (command === 'link') {
-      const source = parts[1];
-      const target = parts[2];
-      let label = '';
-      let style: 'solid' | 'double' = 'solid';
-
-      const labelMatch = lineWithoutCoords.match(/"([^"]+)"/);
-      if (labelMatch) label = labelMatch[1];
-
-      if (lineWithoutCoords.includes('[total]') || lineWithoutCoords.includes('[double]')) {
-        style = 'double';
-      }
+**Output:**
+\`\`\`
+// Entidades
+ent EMPLEADO
+ent DEPARTAMENTO
 
-      if (source && target) {
-        newLinks.push({ source, target, label, style });
-      }
-    }
-  });
+// Atributos
+key_att DNI -> EMPLEADO
+att Nombre -> EMPLEADO
+att Nombre -> DEPARTAMENTO
 
-  return { nodes: newNodes, links: newLinks };
-};
+// Relaciones
+rel TRABAJA_EN
+link EMPLEADO TRABAJA_EN "N" [total]
+link DEPARTAMENTO TRABAJA_EN "1"
+\`\`\`
+
+### Tu Tarea:
+
+Genera el código EER Studio para el siguiente problema. Identifica correctamente claves, cardinalidades, jerarquías y entidades débiles. Puedes sugerir coordenadas aproximadas para evitar superposiciones.
+
+**Problema a modelar:**
+[AQUÍ PEGA TU PROBLEMA DE BASE DE DATOS]`;
 
 function EERDiagrammer(_: unknown, ref: React.Ref<EERDiagramerHandle>) {
-  const [code, setCode] = useState(SAMPLE_CODE);
+  const { present, set: setPresent, undo, redo, canUndo, canRedo } = useHistory<DiagramSnapshot>({ code: SAMPLE_CODE, includes: new Map() });
+  const { code, includes } = present;
+  const setCode = useCallback((next: string, group?: string) => setPresent(s => (s.code === next ? s : { ...s, code: next }), group), [setPresent]);
+  // Modelo completo y, en `nodes`/`links`, lo que se dibuja: el modelo o la vista activa con sus posiciones
+  const [model, setModel] = useState<ParseResult>({ nodes: [], links: [], views: [], diagnostics: [] });
+  const [activeView, setActiveView] = useState<string | null>(null);
   const [nodes, setNodes] = useState<NodeData[]>([]);
   const [links, setLinks] = useState<LinkData[]>([]);
-  const [draggedNodeId, setDraggedNodeId] = useState<string | null>(null);
+  const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([]);
+  const [disabledRules, setDisabledRules] = useState<Set<ValidationRule>>(new Set());
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Líneas del código (0-based) resaltadas a la vez en el editor y en el canvas
+  const [activeLines, setActiveLines] = useState<Set<number>>(new Set());
+  // Edición visual: conexión que se está trazando, conexión pendiente de cardinalidad y nombre que se edita
+  const [connecting, setConnecting] = useState<{ source: string; point: { x: number; y: number } } | null>(null);
+  const [pendingLink, setPendingLink] = useState<{ source: NodeData; target: NodeData } | null>(null);
+  const [renaming, setRenaming] = useState<{ lineIndex: number; value: string; x: number; y: number } | null>(null);
+  const [marquee, setMarquee] = useState<{ start: { x: number; y: number }; end: { x: number; y: number } } | null>(null);
   const [showHelp, setShowHelp] = useState(false);
   const [showFileMenu, setShowFileMenu] = useState(false);
   const [showCredits, setShowCredits] = useState(false);
   const [showAIPrompt, setShowAIPrompt] = useState(false);
+  const [showRelational, setShowRelational] = useState(false);
+  const [showSqlExport, setShowSqlExport] = useState(false);
+  const [showTextExport, setShowTextExport] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  // Versión con la que se compara el diagrama (File > Compare with)
+  const [comparison, setComparison] = useState<{ name: string; model: ParseResult } | null>(null);
+  // Solución de referencia con la que se corrige el diagrama (File > Grade against reference)
+  const [gradingReference, setGradingReference] = useState<{ name: string; model: ParseResult } | null>(null);
+  const [notation, setNotation] = useState<Notation>('chen');
   const [scale, setScale] = useState(0.8);
   const [offset, setOffset] = useState({ x: 0, y: 0 });
   const [isDraggingCanvas, setIsDraggingCanvas] = useState(false);
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
   const [lastFileHandle, setLastFileHandle] = useState<unknown | null>(null);
+  const [fileName, setFileName] = useState('diagram.eer');
+  // Archivos incluidos (include "otro.eer") abiertos junto al principal: su handle y el código que hay en
+  // disco (si difiere del de `includes`, se han movido sus nodos y Save lo escribe)
+  const [includeFiles, setIncludeFiles] = useState<Map<string, { handle: unknown | null; saved: string }>>(new Map());
   
   const svgRef = useRef<SVGSVGElement>(null);
+  const editorRef = useRef<CodeEditorHandle>(null);
   const codeRef = useRef(code);
+  // Arrastre en curso: punto inicial y posición original de cada nodo seleccionado
+  const nodeDrag = useRef<{ start: { x: number; y: number }; origin: Map<string, { x: number; y: number }>; moved: boolean } | null>(null);
+  const canvasDownAt = useRef<{ x: number; y: number } | null>(null);
+  const viewRef = useRef({ scale, offset });
+  const deleteSelectionRef = useRef(() => {});
 
   useEffect(() => {
     codeRef.current = code;
   }, [code]);
 
+  useEffect(() => {
+    viewRef.current = { scale, offset };
+  }, [scale, offset]);
+
+  // Zoom por un factor manteniendo fijo un punto del canvas (en píxeles; por defecto, el centro)
+  const zoomAt = useCallback((factor: number, point?: { x: number; y: number }) => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const { scale: current, offset: origin } = viewRef.current;
+    const next = Math.min(MAX_SCALE, Math.max(MIN_SCALE, current * factor));
+    const p = point ?? { x: svg.clientWidth / 2, y: svg.clientHeight / 2 };
+    const view = {
+      scale: next,
+      offset: { x: p.x - (p.x - origin.x) * next / current, y: p.y - (p.y - origin.y) * next / current },
+    };
+    viewRef.current = view;
+    setScale(view.scale);
+    setOffset(view.offset);
+  }, []);
+
+  // Encaja todo el diagrama en el canvas (con margen y sin ampliar más del 100 %)
+  const fitToContent = () => {
+    const svg = svgRef.current;
+    const bounds = getDiagramBounds(nodes);
+    if (!svg || !bounds) {
+      setOffset({ x: 0, y: 0 });
+      setScale(0.8);
+      return;
+    }
+    const margin = 40;
+    const width = bounds.maxX - bounds.minX + 2 * margin;
+    const height = bounds.maxY - bounds.minY + 2 * margin;
+    const next = Math.min(1, Math.max(MIN_SCALE, Math.min(svg.clientWidth / width, svg.clientHeight / height)));
+    setScale(next);
+    setOffset({
+      x: svg.clientWidth / 2 - (bounds.minX + bounds.maxX) / 2 * next,
+      y: svg.clientHeight / 2 - (bounds.minY + bounds.maxY) / 2 * next,
+    });
+  };
+
+  // Tamaño del canvas (para el minimapa) y rueda/pellizco del trackpad centrados en el cursor.
+  // La rueda se escucha de forma nativa: React la registra como pasiva y no se puede cancelar
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const observer = new ResizeObserver(() => setViewport({ width: svg.clientWidth, height: svg.clientHeight }));
+    observer.observe(svg);
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      // El pellizco llega como rueda con Ctrl y pasos más pequeños
+      const factor = Math.exp(-e.deltaY * (e.ctrlKey ? 0.01 : 0.0015));
+      zoomAt(factor, { x: e.clientX - rect.left, y: e.clientY - rect.top });
+    };
+    svg.addEventListener('wheel', onWheel, { passive: false });
+    return () => {
+      observer.disconnect();
+      svg.removeEventListener('wheel', onWheel);
+    };
+  }, [zoomAt]);
+
   useImperativeHandle(ref, () => ({
     getCode: () => codeRef.current,
     setCode: (c: string) => setCode(c),
   }));
 
+  // Ctrl+Z / Ctrl+Shift+Z (o Ctrl+Y): el historial propio sustituye al del textarea. Esc limpia la selección
+  // y Supr la elimina
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setSelectedIds(new Set());
+      // Sólo con el foco en el documento (tras pulsar en el canvas), no en campos, botones o diálogos
+      if ((e.key === 'Delete' || e.key === 'Backspace') && e.target === document.body) {
+        e.preventDefault();
+        deleteSelectionRef.current();
+        return;
+      }
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || e.target instanceof HTMLInputElement) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo]);
+
 
   useEffect(() => {
     const timer = setTimeout(() => {
-      const { nodes: parsedNodes, links: parsedLinks } = parseCode(code);
-      setNodes(parsedNodes);
-      setLinks(parsedLinks);
+      // El principal junto con los archivos que incluye; errores de sintaxis y avisos de las reglas activas, por archivo y línea
+      const workspace = loadWorkspace(fileName, code, path => includes.get(includeKey(path)));
+      const next = buildWorkspaceModel(workspace, { disabled: disabledRules });
+      const shown = shownModel(next, activeView);
+      setModel(next);
+      setNodes(shown.nodes);
+      setLinks(shown.links);
+      setDiagnostics(next.diagnostics);
     }, 300);
     return () => clearTimeout(timer);
-  }, [code]);
+  }, [code, includes, fileName, disabledRules, activeView]);
 
-  const updateCodePosition = (nodeId: string, newX: number, newY: number) => {
-    const node = nodes.find(n => n.id === nodeId);
-    if (!node) return;
+  const selectView = (viewName: string | null) => {
+    const shown = shownModel(model, viewName);
+    setActiveView(viewName);
+    setNodes(shown.nodes);
+    setLinks(shown.links);
+  };
+  const currentView = model.views.find(v => v.name === activeView);
+
+  // Escribe en el código las posiciones de varios nodos de una vez (una sola entrada en el historial).
+  // Los nodos de un archivo incluido se escriben en ese archivo, que se guarda junto con el principal
+  // En una vista, las posiciones se escriben en su sección (líneas 'show') y no en las definiciones
+  const updateCodePositions = (moved: NodeData[]) => {
+    if (currentView) {
+      const positions = moved.map(node => ({ id: node.id, reference: referenceOf(node), coords: { x: node.x, y: node.y } }));
+      setCode(printDocument(setViewCoords(parseDocument(codeRef.current), currentView, positions)));
+      return;
+    }
+    const own = moved.filter(node => !node.file);
+    const byFile = new Map<string, NodeData[]>();
+    moved.forEach(node => {
+      if (node.file) byFile.set(node.file, [...(byFile.get(node.file) ?? []), node]);
+    });
+    // El principal y los incluidos cambian en la misma entrada del historial
+    setPresent(s => {
+      const nextCode = own.length > 0 ? printDocument(own.reduce((d, node) => setCoords(d, node.lineIndex, { x: node.x, y: node.y }), parseDocument(s.code))) : s.code;
+      const nextIncludes = new Map(s.includes);
+      byFile.forEach((fileNodes, file) => {
+        const included = nextIncludes.get(includeKey(file));
+        if (included === undefined) return;
+        nextIncludes.set(includeKey(file), printDocument(fileNodes.reduce((d, node) => setCoords(d, node.lineIndex, { x: node.x, y: node.y }), parseDocument(included))));
+      });
+      const changed = nextCode !== s.code || [...nextIncludes].some(([name, text]) => s.includes.get(name) !== text);
+      return changed ? { code: nextCode, includes: nextIncludes } : s;
+    });
+  };
 
-    const lines = codeRef.current.split('\n');
-    const lineIndex = node.lineIndex;
-    
-    if (lineIndex >= 0 && lineIndex < lines.length) {
-      let line = lines[lineIndex];
-      if (COORD_REGEX.test(line)) {
-        line = line.replace(COORD_REGEX, '');
-      }
-      line = line.trimEnd();
-      const newLine = `${line} (${Math.round(newX)}, ${Math.round(newY)})`;
-      
-      lines[lineIndex] = newLine;
-      const newCode = lines.join('\n');
-      
-      setCode(newCode);
+  const toDiagramCoords = (e: React.MouseEvent) => {
+    const CTM = svgRef.current?.getScreenCTM();
+    if (!CTM) return null;
+    return {
+      x: (e.clientX - CTM.e) / CTM.a / scale - offset.x / scale,
+      y: (e.clientY - CTM.f) / CTM.d / scale - offset.y / scale,
+    };
+  };
+
+  // Un nodo y, recursivamente, los atributos que cuelgan de él
+  const withAttributes = (id: string) => {
+    const result = new Set([id]);
+    let added = true;
+    while (added) {
+      added = false;
+      nodes.forEach(n => {
+        if (n.owner && result.has(n.owner) && !result.has(n.id)) {
+          result.add(n.id);
+          added = true;
+        }
+      });
+    }
+    return result;
+  };
+
+  const isAttributeNode = (node: NodeData) => node.type.endsWith('attribute');
+
+  // Cómo se escribe un nodo en el código: su ID o, si es atributo, la ruta desde su propietario
+  const referenceOf = (node: NodeData): string => {
+    if (!isAttributeNode(node)) return node.id;
+    const owner = node.owner ? nodes.find(n => n.id === node.owner) : undefined;
+    return owner ? `${referenceOf(owner)}.${node.label}` : node.label;
+  };
+
+  // En la pata de gallo, las relaciones binarias son una línea y su rombo no se dibuja
+  const hiddenIds = notation === 'crowsfoot' ? collapsedRelationships(nodes, links) : new Map();
+  const visibleNodes = nodes.filter(n => !hiddenIds.has(n.id));
+
+  // Nodo dibujado bajo un punto del diagrama (el de encima si se solapan)
+  const nodeAt = (point: { x: number; y: number }) => [...visibleNodes].reverse().find(n =>
+    Math.abs(n.x - point.x) <= NODE_HALF_SIZE[n.type].w && Math.abs(n.y - point.y) <= NODE_HALF_SIZE[n.type].h);
+
+  // Elemento nuevo desde la paleta, escrito como una línea más del código. Los atributos cuelgan
+  // del elemento seleccionado y las especializaciones de la entidad seleccionada
+  const addElement = (command: string, at?: { x: number; y: number }) => {
+    const svg = svgRef.current;
+    const point = at ?? { x: ((svg?.clientWidth ?? 0) / 2 - offset.x) / scale, y: ((svg?.clientHeight ?? 0) / 2 - offset.y) / scale };
+    const selected = nodes.filter(n => selectedIds.has(n.id));
+    const parent = selected.length === 1 ? selected[0] : undefined;
+    const isAttribute = command.endsWith('att');
+    const isHierarchy = command === 'spec' || command === 'union';
+    let owner: string | undefined;
+    if (isAttribute && parent && parent.type !== 'specialization' && parent.type !== 'union') owner = referenceOf(parent);
+    if (command === 'spec' && parent && (parent.type === 'entity' || parent.type === 'weak_entity')) owner = parent.id;
+
+    // Las jerarquías llevan su letra (d, u); el resto, un nombre que no esté en uso
+    let name = NEW_ELEMENT_NAMES[command];
+    if (!isHierarchy) {
+      const taken = new Set(model.nodes.flatMap(n => [n.id, n.label]));
+      for (let i = 2; taken.has(name); i++) name = `${NEW_ELEMENT_NAMES[command]}_${i}`;
+    }
+    let doc = appendLine(parseDocument(codeRef.current), `${command} ${name}${owner ? ` -> ${owner}` : ''} ${formatCoords(point)}`);
+
+    // El elemento nuevo queda seleccionado y, si tiene nombre propio, con el nombre en edición
+    let lineIndex = doc.lines.length - 1;
+    while (lineIndex > 0 && !doc.lines[lineIndex].statement) lineIndex--;
+    // En una vista también se coloca en ella: su línea 'show' queda antes de la definición, que baja una línea
+    if (currentView) lineIndex++;
+    const id = isAttribute || model.nodes.some(n => n.id === name) ? `${name}_${lineIndex}` : name;
+    if (currentView) {
+      const reference = !isAttribute ? id : owner ? `${owner}.${name}` : name;
+      doc = setViewCoords(doc, currentView, [{ id, reference, coords: point }]);
+    }
+    setCode(printDocument(doc));
+    setSelectedIds(new Set([id]));
+    if (!isHierarchy) setRenaming({ lineIndex, value: name, x: point.x, y: point.y });
+  };
+
+  // Vista nueva con los elementos seleccionados (o todos los que se ven) en su posición actual; sus atributos los acompañan
+  const addView = () => {
+    const taken = new Set(model.views.map(v => v.name));
+    let name = 'vista';
+    for (let i = 2; taken.has(name); i++) name = `vista_${i}`;
+    const selected = nodes.filter(n => selectedIds.has(n.id));
+    const members = (selected.length > 0 ? selected : nodes).filter(n => !isAttributeNode(n));
+    const lines = [`view ${name}`, ...members.map(n => `show ${referenceOf(n)} ${formatCoords(n)}`)];
+    setCode(printDocument(lines.reduce(appendLine, parseDocument(codeRef.current))));
+    setActiveView(name);
+  };
+
+  const addLink = (source: NodeData, target: NodeData, label?: string, total = false) => {
+    const text = `link ${referenceOf(source)} ${referenceOf(target)}${label ? ` "${label}"` : ''}${total ? ' [total]' : ''}`;
+    setCode(printDocument(appendLine(parseDocument(codeRef.current), text)));
+  };
+
+  // Conexión trazada en el canvas: con una jerarquía se escribe directamente; entre entidad y relación se pide la cardinalidad
+  const connectNodes = (source: NodeData, target: NodeData) => {
+    const isHierarchy = (n: NodeData) => n.type === 'specialization' || n.type === 'union';
+    if (isHierarchy(source) || isHierarchy(target)) {
+      // La especialización va delante de su subclase (link d SUBCLASE)
+      if (target.type === 'specialization') addLink(target, source);
+      else addLink(source, target);
+    } else if (source.type.endsWith('relationship') && !target.type.endsWith('relationship')) {
+      // Como en el resto del código: primero la entidad y después la relación
+      setPendingLink({ source: target, target: source });
+    } else {
+      setPendingLink({ source, target });
     }
   };
 
+  // Cambia el nombre en su línea y en todas las referencias. Los nombres son una palabra del DSL
+  const commitRename = () => {
+    if (!renaming) return;
+    const name = renaming.value.trim().replace(/\s+/g, '_').replace(/["[\]()]|->|\/\//g, '');
+    setRenaming(null);
+    if (name) setCode(printDocument(renameElement(parseDocument(codeRef.current), renaming.lineIndex, name)));
+  };
+
+  // Borra los nodos seleccionados junto con sus conexiones y atributos (sólo los definidos en el principal)
+  const deleteSelection = () => {
+    if (selectedIds.size === 0) return;
+    const own = nodes.filter(n => selectedIds.has(n.id) && !n.file).map(n => n.id);
+    setCode(printDocument(deleteNodes(parseDocument(codeRef.current), own)));
+    setSelectedIds(new Set());
+    setActiveLines(new Set());
+  };
+
+  useEffect(() => {
+    deleteSelectionRef.current = deleteSelection;
+  });
+
+  const handleDrop = (e: React.DragEvent) => {
+    const command = e.dataTransfer.getData(PALETTE_MIME);
+    if (!command) return;
+    e.preventDefault();
+    const point = toDiagramCoords(e);
+    if (point) addElement(command, point);
+  };
+
+  // Resalta y muestra en el editor la línea que define el nodo y las de sus conexiones (las del principal)
+  const revealNode = (id: string) => {
+    const node = nodes.find(n => n.id === id);
+    if (!node) return;
+    const linkLines = links.filter(l => !l.file && (l.source === id || l.target === id)).map(l => l.lineIndex);
+    setActiveLines(new Set(node.file ? linkLines : [node.lineIndex, ...linkLines]));
+    if (!node.file) editorRef.current?.scrollToLine(node.lineIndex + 1);
+  };
+
   const handleMouseDown = (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
-    setDraggedNodeId(id);
+    if (e.shiftKey) {
+      // Mayús+clic: añade o quita el nodo de la selección (con Alt, también sus atributos)
+      setSelectedIds(prev => {
+        const next = new Set(prev);
+        if (e.altKey) withAttributes(id).forEach(n => next.add(n));
+        else if (next.has(id)) next.delete(id);
+        else next.add(id);
+        return next;
+      });
+      return;
+    }
+    revealNode(id);
+    const point = toDiagramCoords(e);
+    if (!point) return;
+    // Alt+clic: el nodo con todos sus atributos
+    const selection = e.altKey ? withAttributes(id) : selectedIds.has(id) ? selectedIds : new Set([id]);
+    setSelectedIds(selection);
+    nodeDrag.current = {
+      start: point,
+      origin: new Map(nodes.filter(n => selection.has(n.id)).map(n => [n.id, { x: n.x, y: n.y }])),
+      moved: false,
+    };
+  };
+
+  // Doble clic: edita el nombre del nodo sobre el propio canvas
+  const handleDoubleClick = (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    const node = nodes.find(n => n.id === id);
+    // Los nodos de un archivo incluido se renombran en ese archivo
+    if (node && !node.file) setRenaming({ lineIndex: node.lineIndex, value: node.label, x: node.x, y: node.y });
+  };
+
+  // Desde el asa de un nodo se traza una conexión hasta otro
+  const handleConnectStart = (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    const point = toDiagramCoords(e);
+    if (point) setConnecting({ source: id, point });
+  };
+
+  // Sobre el fondo: arrastrar desplaza el lienzo; con Mayús dibuja un rectángulo de selección
+  const handleCanvasMouseDown = (e: React.MouseEvent) => {
+    canvasDownAt.current = { x: e.clientX, y: e.clientY };
+    const point = e.shiftKey ? toDiagramCoords(e) : null;
+    if (point) {
+      setMarquee({ start: point, end: point });
+    } else {
+      setIsDraggingCanvas(true);
+    }
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
-    if (draggedNodeId) {
-      const svg = svgRef.current;
-      if (!svg) return;
-      const CTM = svg.getScreenCTM();
-      if (!CTM) return;
-      
-      const x = (e.clientX - CTM.e) / CTM.a / scale - offset.x / scale;
-      const y = (e.clientY - CTM.f) / CTM.d / scale - offset.y / scale;
-
-      setNodes(prev => prev.map(n => 
-        n.id === draggedNodeId ? { ...n, x, y } : n
-      ));
+    const drag = nodeDrag.current;
+    if (connecting) {
+      const point = toDiagramCoords(e);
+      if (point) setConnecting({ source: connecting.source, point });
+    } else if (drag) {
+      const point = toDiagramCoords(e);
+      if (!point) return;
+      const dx = point.x - drag.start.x;
+      const dy = point.y - drag.start.y;
+      drag.moved = drag.moved || dx !== 0 || dy !== 0;
+      setNodes(prev => prev.map(n => {
+        const origin = drag.origin.get(n.id);
+        return origin ? { ...n, x: origin.x + dx, y: origin.y + dy } : n;
+      }));
+    } else if (marquee) {
+      const point = toDiagramCoords(e);
+      if (point) setMarquee({ start: marquee.start, end: point });
     } else if (isDraggingCanvas) {
       setOffset(prev => ({
         x: prev.x + e.movementX,
@@ -315,185 +629,80 @@ function EERDiagrammer(_: unknown, ref: React.Ref<EERDiagramerHandle>) {
     }
   };
 
-  const handleMouseUp = () => {
-    if (draggedNodeId) {
-      const node = nodes.find(n => n.id === draggedNodeId);
-      if (node) {
-        updateCodePosition(node.id, node.x, node.y);
-      }
-      setDraggedNodeId(null);
+  const handleMouseUp = (e: React.MouseEvent) => {
+    const drag = nodeDrag.current;
+    if (connecting) {
+      const source = nodes.find(n => n.id === connecting.source);
+      const target = nodeAt(connecting.point);
+      if (source && target && target.id !== source.id && !isAttributeNode(target)) connectNodes(source, target);
+      setConnecting(null);
+    } else if (drag) {
+      if (drag.moved) updateCodePositions(nodes.filter(n => drag.origin.has(n.id)));
+      nodeDrag.current = null;
+    } else if (marquee) {
+      const minX = Math.min(marquee.start.x, marquee.end.x);
+      const maxX = Math.max(marquee.start.x, marquee.end.x);
+      const minY = Math.min(marquee.start.y, marquee.end.y);
+      const maxY = Math.max(marquee.start.y, marquee.end.y);
+      const inside = nodes.filter(n => n.x >= minX && n.x <= maxX && n.y >= minY && n.y <= maxY).map(n => n.id);
+      setSelectedIds(prev => new Set([...prev, ...inside]));
+      setMarquee(null);
+    } else if (isDraggingCanvas && canvasDownAt.current
+      && Math.hypot(e.clientX - canvasDownAt.current.x, e.clientY - canvasDownAt.current.y) < 3) {
+      // Un clic sin arrastrar sobre el fondo limpia la selección y el resaltado
+      setSelectedIds(new Set());
+      setActiveLines(new Set());
     }
+    canvasDownAt.current = null;
     setIsDraggingCanvas(false);
   };
 
-  const renderNodeShape = (node: NodeData) => {
-    const strokeColor = '#334155';
-    const strokeWidth = 2;
-    const fillColor = '#ffffff';
-    const textColor = '#0f172a';
-
-    switch (node.type) {
-      case 'entity':
-        return (
-          <g>
-            <rect x="-50" y="-25" width="100" height="50" fill={fillColor} stroke={strokeColor} strokeWidth={strokeWidth} rx="2" className="drop-shadow-sm" />
-            <text x="0" y="5" textAnchor="middle" fill={textColor} fontSize="12" fontWeight="bold" style={{ pointerEvents: 'none', userSelect: 'none' }}>{node.label}</text>
-          </g>
-        );
-      case 'weak_entity':
-        return (
-          <g>
-            <rect x="-50" y="-25" width="100" height="50" fill={fillColor} stroke={strokeColor} strokeWidth={strokeWidth} rx="2" className="drop-shadow-sm"/>
-            <rect x="-44" y="-19" width="88" height="38" fill="none" stroke={strokeColor} strokeWidth={strokeWidth} rx="1" />
-            <text x="0" y="5" textAnchor="middle" fill={textColor} fontSize="12" fontWeight="bold" style={{ pointerEvents: 'none', userSelect: 'none' }}>{node.label}</text>
-          </g>
-        );
-      case 'relationship':
-        return (
-          <g>
-            <polygon points="0,-40 60,0 0,40 -60,0" fill="#f8fafc" stroke={strokeColor} strokeWidth={strokeWidth} className="drop-shadow-sm"/>
-            <text x="0" y="5" textAnchor="middle" fill={textColor} fontSize="11" fontWeight="bold" style={{ pointerEvents: 'none', userSelect: 'none' }}>{node.label}</text>
-          </g>
-        );
-      case 'identifying_relationship':
-        return (
-          <g>
-            <polygon points="0,-40 60,0 0,40 -60,0" fill="#f8fafc" stroke={strokeColor} strokeWidth={strokeWidth} className="drop-shadow-sm"/>
-            <polygon points="0,-32 48,0 0,32 -48,0" fill="none" stroke={strokeColor} strokeWidth={strokeWidth} />
-            <text x="0" y="5" textAnchor="middle" fill={textColor} fontSize="11" fontWeight="bold" style={{ pointerEvents: 'none', userSelect: 'none' }}>{node.label}</text>
-          </g>
-        );
-      case 'attribute':
-      case 'key_attribute':
-      case 'multivalued_attribute':
-      case 'derived_attribute':
-      {
-        const isKey = node.type === 'key_attribute';
-        const isMulti = node.type === 'multivalued_attribute';
-        const isDerived = node.type === 'derived_attribute';
-        return (
-          <g>
-            <ellipse cx="0" cy="0" rx="45" ry="25" fill="#f1f5f9" stroke={strokeColor} strokeWidth={strokeWidth} strokeDasharray={isDerived ? "4" : "0"} className="drop-shadow-sm"/>
-            {isMulti && <ellipse cx="0" cy="0" rx="38" ry="18" fill="none" stroke={strokeColor} strokeWidth={strokeWidth} />}
-            <text x="0" y="4" textAnchor="middle" fill={textColor} fontSize="11" textDecoration={isKey ? "underline" : "none"} style={{ pointerEvents: 'none', userSelect: 'none' }}>{node.label}</text>
-          </g>
-        );
-      }
-      case 'specialization':
-      case 'union':
-        return (
-          <g>
-            <circle cx="0" cy="0" r="18" fill="#fff" stroke={strokeColor} strokeWidth={strokeWidth} className="drop-shadow-sm"/>
-            <text x="0" y="5" textAnchor="middle" fontWeight="bold" fontSize="14" style={{ pointerEvents: 'none', userSelect: 'none' }}>{node.label}</text>
-          </g>
-        );
-      default:
-        return null;
-    }
-  };
-
-  const renderLinks = () => {
-    return links.map((link, i) => {
-      const sourceNode = nodes.find(n => n.id === link.source);
-      const targetNode = nodes.find(n => n.id === link.target);
-      if (!sourceNode || !targetNode) return null;
-
-      // CORRECCIÓN FINAL:
-      // 1. Detectar si el origen es una especialización/unión y el destino es una entidad (subclase/categoría).
-      // 2. El símbolo de subconjunto debe abrirse hacia el ORIGEN (la especialización).
-      
-      const isSourceSpec = sourceNode.type === 'specialization' || sourceNode.type === 'union';
-      const isTargetEntity = targetNode.type === 'entity' || targetNode.type === 'weak_entity';
-      const showSubsetSymbol = isSourceSpec && isTargetEntity;
-      
-      const midX = (sourceNode.x + targetNode.x) / 2;
-      const midY = (sourceNode.y + targetNode.y) / 2;
-      
-      // Calcular ángulo para rotar el símbolo correctamente
-      const angle = Math.atan2(targetNode.y - sourceNode.y, targetNode.x - sourceNode.x) * 180 / Math.PI;
-
-      return (
-        <g key={i}>
-          <line
-            x1={sourceNode.x}
-            y1={sourceNode.y}
-            x2={targetNode.x}
-            y2={targetNode.y}
-            stroke="#64748b"
-            strokeWidth={link.style === 'double' ? 4 : 1.5}
-            strokeLinecap="round"
-          />
-          {link.style === 'double' && (
-             <line
-             x1={sourceNode.x}
-             y1={sourceNode.y}
-             x2={targetNode.x}
-             y2={targetNode.y}
-             stroke="#ffffff"
-             strokeWidth={2}
-             strokeLinecap="round"
-           />
-          )}
-
-          {showSubsetSymbol && (
-            <path 
-              d={`M ${midX-8} ${midY-5} Q ${midX} ${midY+8} ${midX+8} ${midY-5}`}
-              fill="none"
-              stroke="#64748b"
-              strokeWidth="2"
-              // Rotación ajustada: angle - 90 asegura que la copa se abra hacia el nodo Origen (la especialización)
-              transform={`rotate(${angle - 90}, ${midX}, ${midY})`}
-            />
-          )}
-
-          {link.label && (
-            <g transform={`translate(${midX}, ${midY})`}>
-              <rect x="-10" y="-10" width="20" height="20" fill="white" opacity="0.9" rx="4" />
-              <text x="0" y="5" textAnchor="middle" fontSize="12" fontWeight="bold" fill="#0f172a" style={{ pointerEvents: 'none', userSelect: 'none' }}>{link.label}</text>
-            </g>
-          )}
-        </g>
-      );
-    });
+  // Contorno de selección (o de resaltado, si la línea del nodo está activa): rectángulo algo mayor que la forma del nodo
+  const renderOutline = (node: NodeData, color: { fill: string; stroke: string }) => {
+    const [w, h] = node.type.endsWith('attribute') ? [52, 32]
+      : node.type.endsWith('relationship') ? [66, 46]
+      : node.type === 'specialization' || node.type === 'union' ? [25, 25]
+      : [57, 32];
+    return <rect x={-w} y={-h} width={2 * w} height={2 * h} rx="6" fill={color.fill} fillOpacity={0.6} stroke={color.stroke} strokeWidth="1.5" strokeDasharray="5 3" />;
   };
 
-  const handleExport = () => {
-    if (svgRef.current) {
-      const data = new XMLSerializer().serializeToString(svgRef.current);
-      const blob = new Blob([data], { type: 'image/svg+xml;charset=utf-8' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = 'eer-diagram.svg';
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+  // Distribución automática; con Mayús se conservan los nodos que ya tienen coordenadas
+  // En una vista se distribuyen sus elementos y las posiciones van a sus líneas 'show'
+  const handleAutoLayout = (keepExisting: boolean) => {
+    if (currentView) {
+      const fixed = new Set(keepExisting ? currentView.nodes.filter(n => n.position).map(n => n.id) : []);
+      const positions = computeLayout(nodes, links, { fixed });
+      const moved = nodes.filter(n => !fixed.has(n.id)).map(n => ({ id: n.id, reference: referenceOf(n), coords: positions.get(n.id) ?? n }));
+      setCode(printDocument(setViewCoords(parseDocument(codeRef.current), currentView, moved)));
+      return;
     }
+    // Los nodos de los incluidos cuentan para la distribución pero no se mueven
+    const workspace = loadWorkspace(fileName, codeRef.current, path => includes.get(includeKey(path)));
+    setCode(printDocument(layoutWorkspace(workspace, parseDocument(codeRef.current), { keepExisting })));
   };
 
-  // File menu actions (Open, Save, Save As)
-  const handleOpenFile = async () => {
+  // File menu actions (Open, Open include, Import SQL/Mermaid/DBML, Save, Save As)
+  const readTextFiles = async (description: string, extension: string, multiple: boolean, onLoad: (files: OpenedFile[]) => void) => {
     try {
       const picker = (window as unknown as { showOpenFilePicker?: (opts: unknown) => Promise<FileSystemFileHandle[]> }).showOpenFilePicker;
       const handles = picker ? await picker({
-        types: [{ description: 'EER Files', accept: { 'text/plain': ['.eer'] } }],
-        multiple: false,
+        types: [{ description, accept: { 'text/plain': [extension] } }],
+        multiple,
       }) : [];
-      const handle = handles && handles[0];
-      if (handle) {
-        const file = await (handle as unknown as { getFile: () => Promise<File> }).getFile();
-        const text = await file.text();
-        setCode(text);
-        setLastFileHandle(handle);
+      if (handles && handles.length > 0) {
+        onLoad(await Promise.all(handles.map(async handle => {
+          const file = await (handle as unknown as { getFile: () => Promise<File> }).getFile();
+          return { name: file.name, text: await file.text(), handle };
+        })));
       } else {
         const input = document.createElement('input');
         input.type = 'file';
-        input.accept = '.eer,text/plain';
+        input.accept = `${extension},text/plain`;
+        input.multiple = multiple;
         input.onchange = async () => {
-          const f = (input.files && input.files[0]) || null;
-          if (!f) return;
-          const text = await f.text();
-          setCode(text);
+          const files = Array.from(input.files ?? []);
+          if (files.length === 0) return;
+          onLoad(await Promise.all(files.map(async f => ({ name: f.name, text: await f.text(), handle: null }))));
         };
         input.click();
       }
@@ -502,14 +711,94 @@ function EERDiagrammer(_: unknown, ref: React.Ref<EERDiagramerHandle>) {
     }
   };
 
+  const includedNames = (files: OpenedFile[]) => new Set(files.flatMap(f => parseDocument(f.text).lines
+    .flatMap(line => line.statement?.kind === 'include' ? [includeKey(line.statement.path.value)] : [])));
+
+  // Se pueden abrir a la vez el diagrama y los archivos que incluye: el principal es el que nadie incluye
+  const handleOpenFile = () => readTextFiles('EER Files', '.eer', true, files => {
+    const included = includedNames(files);
+    const main = files.find(f => !included.has(f.name)) ?? files[0];
+    const others = files.filter(f => f !== main);
+    setPresent({ code: main.text, includes: new Map(others.map(f => [f.name, f.text])) });
+    setFileName(main.name);
+    if (main.handle) setLastFileHandle(main.handle);
+    setIncludeFiles(new Map(others.map(f => [f.name, { handle: f.handle, saved: f.text }])));
+  });
+
+  // Archivos incluidos que faltan (o que se quieren volver a leer), sin cambiar el principal
+  const handleOpenInclude = () => readTextFiles('EER Files', '.eer', true, files => {
+    setPresent(s => ({ ...s, includes: new Map([...s.includes, ...files.map(f => [f.name, f.text] as const)]) }));
+    setIncludeFiles(prev => new Map([...prev, ...files.map(f => [f.name, { handle: f.handle, saved: f.text }] as const)]));
+  });
+
+  // La otra versión usa los incluidos abiertos con el mismo nombre
+  const handleCompareFile = () => readTextFiles('EER Files', '.eer', false, ([file]) => {
+    const workspace = loadWorkspace(file.name, file.text, path => includes.get(includeKey(path)));
+    setComparison({ name: file.name, model: buildWorkspaceModel(workspace) });
+  });
+
+  const handleGradeFile = () => readTextFiles('EER Files', '.eer', false, ([file]) => {
+    const workspace = loadWorkspace(file.name, file.text, path => includes.get(includeKey(path)));
+    setGradingReference({ name: file.name, model: buildWorkspaceModel(workspace) });
+  });
+
+  // El diagrama importado es nuevo: "Save" no debe sobrescribir el .sql
+  const handleImportSQL = () => readTextFiles('SQL Scripts', '.sql', false, ([file]) => {
+    setPresent({ code: importSQL(file.text).code, includes: new Map() });
+    setLastFileHandle(null);
+    setFileName('diagram.eer');
+    setIncludeFiles(new Map());
+  });
+
+  const handleImportMermaid = () => readTextFiles('Mermaid', '.mmd', false, ([file]) => {
+    setPresent({ code: importMermaid(file.text).code, includes: new Map() });
+    setLastFileHandle(null);
+    setFileName('diagram.eer');
+    setIncludeFiles(new Map());
+  });
+
+  const handleImportDBML = () => readTextFiles('DBML', '.dbml', false, ([file]) => {
+    setPresent({ code: importDBML(file.text).code, includes: new Map() });
+    setLastFileHandle(null);
+    setFileName('diagram.eer');
+    setIncludeFiles(new Map());
+  });
+
   const saveToHandle = async (handle: unknown, content: string) => {
     const writable = await (handle as unknown as { createWritable: () => Promise<{ write: (data: string) => Promise<void>; close: () => Promise<void>; }> }).createWritable();
     await writable.write(content);
     await writable.close();
   };
 
+  const downloadText = (name: string, content: string) => {
+    const blob = new Blob([content], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = name;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
   const handleSaveFile = async () => {
     try {
+      // Los incluidos con nodos movidos se guardan en su propio archivo (o se descargan si se abrieron sin handle).
+      // Sólo pasan a guardados con el código escrito: lo que cambie mientras tanto sigue pendiente
+      const changed = [...includes].filter(([name, text]) => text !== includeFiles.get(name)?.saved);
+      await Promise.all(changed.map(async ([name, text]) => {
+        const handle = includeFiles.get(name)?.handle;
+        if (handle) await saveToHandle(handle, text);
+        else downloadText(name, text);
+      }));
+      if (changed.length > 0) {
+        setIncludeFiles(prev => {
+          const next = new Map(prev);
+          changed.forEach(([name, text]) => next.set(name, { handle: prev.get(name)?.handle ?? null, saved: text }));
+          return next;
+        });
+      }
       if (lastFileHandle) {
         await saveToHandle(lastFileHandle, codeRef.current);
       } else {
@@ -522,15 +811,7 @@ function EERDiagrammer(_: unknown, ref: React.Ref<EERDiagramerHandle>) {
           await saveToHandle(fileHandle, codeRef.current);
           setLastFileHandle(fileHandle);
         } else {
-          const blob = new Blob([codeRef.current], { type: 'text/plain' });
-          const url = URL.createObjectURL(blob);
-          const a = document.createElement('a');
-          a.href = url;
-          a.download = 'diagram.eer';
-          document.body.appendChild(a);
-          a.click();
-          document.body.removeChild(a);
-          URL.revokeObjectURL(url);
+          downloadText('diagram.eer', codeRef.current);
         }
       }
     } finally {
@@ -549,15 +830,7 @@ function EERDiagrammer(_: unknown, ref: React.Ref<EERDiagramerHandle>) {
         await saveToHandle(fileHandle, codeRef.current);
         setLastFileHandle(fileHandle);
       } else {
-        const blob = new Blob([codeRef.current], { type: 'text/plain' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = 'diagram.eer';
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+        downloadText('diagram.eer', codeRef.current);
       }
     } finally {
       setShowFileMenu(false);
@@ -574,13 +847,26 @@ function EERDiagrammer(_: unknown, ref: React.Ref<EERDiagramerHandle>) {
           <div className="relative ml-4" onMouseDown={e => e.stopPropagation()}>
             <button onClick={() => setShowFileMenu(s => !s)} className="rounded-md px-3 py-1.5 text-sm font-medium text-slate-700 hover:bg-slate-100 border border-slate-200">File</button>
             {showFileMenu && (
-              <div className="absolute left-0 mt-1 w-40 rounded-md border border-slate-200 bg-white shadow-lg z-40">
+              <div className="absolute left-0 mt-1 w-64 rounded-md border border-slate-200 bg-white shadow-lg z-40">
                 <button onClick={handleOpenFile} className="block w-full text-left px-3 py-2 text-sm hover:bg-slate-100">Open</button>
+                <button onClick={handleOpenInclude} className="block w-full text-left px-3 py-2 text-sm hover:bg-slate-100">Open include</button>
                 <button onClick={handleSaveFile} className="block w-full text-left px-3 py-2 text-sm hover:bg-slate-100">Save</button>
                 <button onClick={handleSaveAsFile} className="block w-full text-left px-3 py-2 text-sm hover:bg-slate-100">Save as</button>
+                <button onClick={handleCompareFile} className="block w-full text-left px-3 py-2 text-sm hover:bg-slate-100">Compare with…</button>
+                <button onClick={handleGradeFile} className="block w-full text-left px-3 py-2 text-sm hover:bg-slate-100">Grade against reference…</button>
+                <div className="border-t border-slate-100" />
+                <button onClick={handleImportSQL} className="block w-full text-left px-3 py-2 text-sm hover:bg-slate-100">Import SQL</button>
+                <button onClick={() => { setShowSqlExport(true); setShowFileMenu(false); }} className="block w-full text-left px-3 py-2 text-sm hover:bg-slate-100">Export SQL</button>
+                <button onClick={handleImportMermaid} className="block w-full text-left px-3 py-2 text-sm hover:bg-slate-100">Import Mermaid</button>
+                <button onClick={handleImportDBML} className="block w-full text-left px-3 py-2 text-sm hover:bg-slate-100">Import DBML</button>
+                <button onClick={() => { setShowTextExport(true); setShowFileMenu(false); }} className="block w-full text-left px-3 py-2 text-sm hover:bg-slate-100">Export Mermaid / PlantUML / DBML</button>
               </div>
             )}
           </div>
+          <div className="flex items-center gap-1">
+            <button onClick={undo} disabled={!canUndo} title="Deshacer (Ctrl+Z)" className="rounded-md p-1.5 text-slate-600 hover:bg-slate-100 disabled:opacity-40 disabled:hover:bg-transparent"><Undo2 className="h-4 w-4" /></button>
+            <button onClick={redo} disabled={!canRedo} title="Rehacer (Ctrl+Shift+Z)" className="rounded-md p-1.5 text-slate-600 hover:bg-slate-100 disabled:opacity-40 disabled:hover:bg-transparent"><Redo2 className="h-4 w-4" /></button>
+          </div>
         </div>
         <div className="flex items-center gap-3">
           <button onClick={() => setShowHelp(true)} className="flex items-center gap-1 rounded-md px-3 py-1.5 text-sm font-medium text-slate-600 hover:bg-slate-100 transition-colors">
@@ -589,11 +875,14 @@ function EERDiagrammer(_: unknown, ref: React.Ref<EERDiagramerHandle>) {
           <button onClick={() => setShowAIPrompt(true)} className="flex items-center gap-1 rounded-md px-3 py-1.5 text-sm font-medium text-slate-600 hover:bg-slate-100 transition-colors">
             <Code className="h-4 w-4" /> Prompt para tu IA
           </button>
+          <button onClick={() => setShowRelational(true)} className="flex items-center gap-1 rounded-md px-3 py-1.5 text-sm font-medium text-slate-600 hover:bg-slate-100 transition-colors">
+            <Table2 className="h-4 w-4" /> Esquema relacional
+          </button>
           <button onClick={() => setShowCredits(true)} className="flex items-center gap-1 rounded-md px-3 py-1.5 text-sm font-medium text-slate-600 hover:bg-slate-100 transition-colors">
             <Info className="h-4 w-4" /> Créditos
           </button>
-          <button onClick={handleExport} className="flex items-center gap-1 rounded-md bg-indigo-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-indigo-700 shadow-sm transition-colors">
-            <Share2 className="h-4 w-4" /> Exportar SVG
+          <button onClick={() => setShowExport(true)} className="flex items-center gap-1 rounded-md bg-indigo-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-indigo-700 shadow-sm transition-colors">
+            <Share2 className="h-4 w-4" /> Exportar
           </button>
         </div>
       </header>
@@ -607,26 +896,53 @@ function EERDiagrammer(_: unknown, ref: React.Ref<EERDiagramerHandle>) {
             </span>
             <div className="text-[10px] text-slate-400">Las coordenadas se actualizan al mover nodos</div>
           </div>
-          <textarea
+          <CodeEditor
+            ref={editorRef}
             value={code}
-            onChange={(e) => setCode(e.target.value)}
-            className="flex-1 resize-none bg-slate-50 p-4 font-mono text-xs md:text-sm leading-relaxed text-slate-700 focus:outline-none selection:bg-indigo-100"
-            spellCheck={false}
+            onChange={text => setCode(text, 'typing')}
+            diagnostics={diagnostics.filter(d => !d.file)}
+            highlightedLines={new Set([...activeLines].map(i => i + 1))}
+            onCursorLineChange={line => setActiveLines(new Set([line - 1]))}
+          />
+          <ProblemsPanel
+            diagnostics={diagnostics}
+            onSelect={(d) => { if (!d.file) editorRef.current?.revealLine(d.line, d.column); }}
+            disabledRules={disabledRules}
+            onToggleRule={rule => setDisabledRules(prev => {
+              const next = new Set(prev);
+              if (next.has(rule)) next.delete(rule);
+              else next.add(rule);
+              return next;
+            })}
           />
         </div>
 
         <div className="relative flex-1 bg-slate-50 overflow-hidden cursor-grab active:cursor-grabbing"
-             onMouseDown={() => setIsDraggingCanvas(true)}
+             onMouseDown={handleCanvasMouseDown}
              onMouseMove={handleMouseMove}
              onMouseUp={handleMouseUp}
              onMouseLeave={handleMouseUp}
+             onDragOver={e => { if (e.dataTransfer.types.includes(PALETTE_MIME)) e.preventDefault(); }}
+             onDrop={handleDrop}
         >
+          <EditPalette onAdd={command => addElement(command)} onDelete={deleteSelection} canDelete={selectedIds.size > 0} />
+          <ViewTabs views={model.views.map(v => v.name)} active={currentView ? currentView.name : null} onSelect={selectView} onAdd={addView} />
+          <select
+            value={notation}
+            onChange={e => setNotation(e.target.value as Notation)}
+            onMouseDown={e => e.stopPropagation()}
+            title="Notación del diagrama"
+            className="absolute right-4 top-4 z-20 rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-xs font-medium text-slate-600 shadow-lg focus:outline-none focus:ring-2 focus:ring-indigo-200"
+          >
+            {NOTATIONS.map(n => <option key={n.id} value={n.id}>{n.label}</option>)}
+          </select>
           <div className="absolute bottom-4 right-4 flex gap-2 rounded-lg bg-white p-1 shadow-lg border border-slate-200 z-20" onMouseDown={e => e.stopPropagation()}>
-            <button onClick={() => setScale(s => Math.max(0.1, s - 0.1))} className="p-2 hover:bg-slate-100 rounded text-slate-600"><ZoomOut className="h-5 w-5" /></button>
+            <button onClick={() => zoomAt(1 / ZOOM_STEP)} title="Alejar" className="p-2 hover:bg-slate-100 rounded text-slate-600"><ZoomOut className="h-5 w-5" /></button>
             <span className="flex items-center px-2 text-xs font-medium text-slate-500 min-w-[3rem] justify-center">{Math.round(scale * 100)}%</span>
-            <button onClick={() => setScale(s => Math.min(3, s + 0.1))} className="p-2 hover:bg-slate-100 rounded text-slate-600"><ZoomIn className="h-5 w-5" /></button>
+            <button onClick={() => zoomAt(ZOOM_STEP)} title="Acercar" className="p-2 hover:bg-slate-100 rounded text-slate-600"><ZoomIn className="h-5 w-5" /></button>
             <div className="w-px bg-slate-200 my-1 mx-1"></div>
-            <button onClick={() => { setOffset({x:0, y:0}); setScale(0.8); }} className="p-2 hover:bg-slate-100 rounded text-slate-600"><Maximize2 className="h-5 w-5" /></button>
+            <button onClick={e => handleAutoLayout(e.shiftKey)} title="Distribución automática (Mayús: sólo nodos sin coordenadas)" className="p-2 hover:bg-slate-100 rounded text-slate-600"><Network className="h-5 w-5" /></button>
+            <button onClick={fitToContent} title="Ajustar al contenido" className="p-2 hover:bg-slate-100 rounded text-slate-600"><Maximize2 className="h-5 w-5" /></button>
           </div>
 
           <svg 
@@ -641,19 +957,89 @@ function EERDiagrammer(_: unknown, ref: React.Ref<EERDiagramerHandle>) {
               </defs>
               <rect x={-50000} y={-50000} width={100000} height={100000} fill="url(#grid)" />
 
-              {renderLinks()}
-              {nodes.map(node => (
+              <DiagramLinks nodes={nodes} links={links} notation={notation} highlightedLines={activeLines} />
+              {visibleNodes.map(node => (
                 <g 
                   key={node.id} 
+                  className="group"
                   transform={`translate(${node.x}, ${node.y})`}
                   onMouseDown={(e) => handleMouseDown(e, node.id)}
+                  onDoubleClick={(e) => handleDoubleClick(e, node.id)}
                   style={{ cursor: 'grab' }}
                 >
-                  {renderNodeShape(node)}
+                  {selectedIds.has(node.id) ? renderOutline(node, { fill: '#e0e7ff', stroke: '#6366f1' })
+                    : !node.file && activeLines.has(node.lineIndex) && renderOutline(node, { fill: '#fef3c7', stroke: '#f59e0b' })}
+                  <NodeShape node={node} />
+                  {!isAttributeNode(node) && (
+                    <circle
+                      cx={NODE_HALF_SIZE[node.type].w + 10}
+                      cy={0}
+                      r={6}
+                      fill="#6366f1"
+                      stroke="#ffffff"
+                      strokeWidth={2}
+                      className="opacity-0 transition-opacity group-hover:opacity-100"
+                      style={{ cursor: 'crosshair' }}
+                      onMouseDown={e => handleConnectStart(e, node.id)}
+                    >
+                      <title>Arrastra hasta otro elemento para conectarlos</title>
+                    </circle>
+                  )}
                 </g>
               ))}
+              {connecting && (() => {
+                const source = nodes.find(n => n.id === connecting.source);
+                return source && (
+                  <line x1={source.x} y1={source.y} x2={connecting.point.x} y2={connecting.point.y} stroke="#6366f1" strokeWidth={2 / scale} strokeDasharray={`${6 / scale}`} pointerEvents="none" />
+                );
+              })()}
+              {marquee && (
+                <rect
+                  x={Math.min(marquee.start.x, marquee.end.x)}
+                  y={Math.min(marquee.start.y, marquee.end.y)}
+                  width={Math.abs(marquee.end.x - marquee.start.x)}
+                  height={Math.abs(marquee.end.y - marquee.start.y)}
+                  fill="#6366f1"
+                  fillOpacity={0.08}
+                  stroke="#6366f1"
+                  strokeWidth={1 / scale}
+                  strokeDasharray={`${4 / scale}`}
+                />
+              )}
             </g>
           </svg>
+          {renaming && (
+            <input
+              autoFocus
+              value={renaming.value}
+              onChange={e => setRenaming({ ...renaming, value: e.target.value })}
+              onFocus={e => e.target.select()}
+              onBlur={commitRename}
+              onKeyDown={e => {
+                if (e.key === 'Enter') commitRename();
+                if (e.key === 'Escape') setRenaming(null);
+              }}
+              onMouseDown={e => e.stopPropagation()}
+              className="absolute z-30 w-36 rounded border border-indigo-400 bg-white px-2 py-1 text-center text-xs font-bold text-slate-900 shadow-lg focus:outline-none focus:ring-2 focus:ring-indigo-200"
+              style={{ left: offset.x + renaming.x * scale - 72, top: offset.y + renaming.y * scale - 14 }}
+            />
+          )}
+          {pendingLink && (
+            <CardinalityPicker
+              position={{
+                left: offset.x + (pendingLink.source.x + pendingLink.target.x) / 2 * scale,
+                top: offset.y + (pendingLink.source.y + pendingLink.target.y) / 2 * scale,
+              }}
+              onPick={(label, total) => {
+                addLink(pendingLink.source, pendingLink.target, label, total);
+                setPendingLink(null);
+              }}
+              onCancel={() => setPendingLink(null)}
+            />
+          )}
+          {nodes.length > 0 && viewport.width > 0 && (
+            <Minimap nodes={nodes} links={links} scale={scale} offset={offset} viewport={viewport} onNavigate={setOffset} />
+          )}
         </div>
       </div>
 
@@ -674,74 +1060,7 @@ function EERDiagrammer(_: unknown, ref: React.Ref<EERDiagramerHandle>) {
                   <span className="text-xs font-semibold text-slate-500 uppercase">Copiar este prompt</span>
                   <button 
                     onClick={() => {
-                      const promptText = `Actúa como un experto en diseño de bases de datos y generador de código para la herramienta "EER Studio". Tu tarea es analizar una descripción en lenguaje natural de un problema de requisitos de datos y convertirla en el código DSL (Domain Specific Language) específico que utiliza EER Studio para generar diagramas.
-
-### Reglas de Sintaxis de EER Studio:
-
-1. **Entidades:**
-   - Fuertes: \`ent NOMBRE_ENTIDAD\`
-   - Débiles: \`weak_ent NOMBRE_ENTIDAD\`
-   - (Opcional) Puedes añadir coordenadas: \`ent USUARIO (100, 200)\`
-
-2. **Atributos:**
-   - Simple: \`att NombreAtributo -> ENTIDAD\`
-   - Clave (identificador): \`key_att NombreAtributo -> ENTIDAD\`
-   - Derivado: \`derived_att NombreAtributo -> ENTIDAD\`
-   - Multivaluado: \`multivalued_att NombreAtributo -> ENTIDAD\`
-
-3. **Relaciones:**
-   - Normal: \`rel NOMBRE_RELACION\`
-   - Identificativa (para entidades débiles): \`ident_rel NOMBRE_RELACION\`
-
-4. **Conexiones (Links) y Cardinalidad:**
-   - Sintaxis: \`link ENTIDAD RELACION "CARDINALIDAD"\`
-   - Cardinalidades: "1", "N", "M"
-   - Participación Total: \`link EMPLEADO TRABAJA_EN "N" [total]\`
-
-5. **Jerarquías (Especialización/Generalización):**
-   - Definir especialización: \`spec TIPO -> SUPERCLASE\`
-     - TIPO: 'd' (disjunta) o 'o' (solapada)
-   - Conectar subclases: \`link TIPO SUBCLASE\`
-   - Ejemplo:
-     \`\`\`
-     spec d -> EMPLEADO
-     link d SECRETARIA
-     link d INGENIERO
-     \`\`\`
-
-6. **Uniones (Categorías):**
-   - Definir unión: \`union u\`
-   - Conectar superclases: \`link SUPERCLASE u\`
-   - Conectar categoría: \`link u CATEGORIA\`
-
-### Ejemplo:
-
-**Input:** "Un empleado trabaja en un departamento. El empleado tiene DNI (clave) y Nombre. El departamento tiene un Nombre."
-
-**Output:**
-\`\`\`
-// Entidades
-ent EMPLEADO
-ent DEPARTAMENTO
-
-// Atributos
-key_att DNI -> EMPLEADO
-att Nombre -> EMPLEADO
-att Nombre -> DEPARTAMENTO
-
-// Relaciones
-rel TRABAJA_EN
-link EMPLEADO TRABAJA_EN "N" [total]
-link DEPARTAMENTO TRABAJA_EN "1"
-\`\`\`
-
-### Tu Tarea:
-
-Genera el código EER Studio para el siguiente problema. Identifica correctamente claves, cardinalidades, jerarquías y entidades débiles. Puedes sugerir coordenadas aproximadas para evitar superposiciones.
-
-**Problema a modelar:**
-[AQUÍ PEGA TU PROBLEMA DE BASE DE DATOS]`;
-                      navigator.clipboard.writeText(promptText);
+                      navigator.clipboard.writeText(AI_PROMPT);
                     }}
                     className="rounded-md bg-indigo-600 px-3 py-1 text-xs text-white hover:bg-indigo-700"
                   >
@@ -749,73 +1068,7 @@ Genera el código EER Studio para el siguiente problema. Identifica correctament
                   </button>
                 </div>
                 <pre className="text-xs overflow-x-auto whitespace-pre-wrap font-mono bg-white p-3 rounded border border-slate-200 max-h-96">
-{`Actúa como un experto en diseño de bases de datos y generador de código para la herramienta "EER Studio". Tu tarea es analizar una descripción en lenguaje natural de un problema de requisitos de datos y convertirla en el código DSL (Domain Specific Language) específico que utiliza EER Studio para generar diagramas.
-
-### Reglas de Sintaxis de EER Studio:
-
-1. **Entidades:**
-   - Fuertes: \`ent NOMBRE_ENTIDAD\`
-   - Débiles: \`weak_ent NOMBRE_ENTIDAD\`
-   - (Opcional) Puedes añadir coordenadas: \`ent USUARIO (100, 200)\`
-
-2. **Atributos:**
-   - Simple: \`att NombreAtributo -> ENTIDAD\`
-   - Clave (identificador): \`key_att NombreAtributo -> ENTIDAD\`
-   - Derivado: \`derived_att NombreAtributo -> ENTIDAD\`
-   - Multivaluado: \`multivalued_att NombreAtributo -> ENTIDAD\`
-
-3. **Relaciones:**
-   - Normal: \`rel NOMBRE_RELACION\`
-   - Identificativa (para entidades débiles): \`ident_rel NOMBRE_RELACION\`
-
-4. **Conexiones (Links) y Cardinalidad:**
-   - Sintaxis: \`link ENTIDAD RELACION "CARDINALIDAD"\`
-   - Cardinalidades: "1", "N", "M"
-   - Participación Total: \`link EMPLEADO TRABAJA_EN "N" [total]\`
-
-5. **Jerarquías (Especialización/Generalización):**
-   - Definir especialización: \`spec TIPO -> SUPERCLASE\`
-     - TIPO: 'd' (disjunta) o 'o' (solapada)
-   - Conectar subclases: \`link TIPO SUBCLASE\`
-   - Ejemplo:
-     \`\`\`
-     spec d -> EMPLEADO
-     link d SECRETARIA
-     link d INGENIERO
-     \`\`\`
-
-6. **Uniones (Categorías):**
-   - Definir unión: \`union u\`
-   - Conectar superclases: \`link SUPERCLASE u\`
-   - Conectar categoría: \`link u CATEGORIA\`
-
-### Ejemplo:
-
-**Input:** "Un empleado trabaja en un departamento. El empleado tiene DNI (clave) y Nombre. El departamento tiene un Nombre."
-
-**Output:**
-\`\`\`
-// Entidades
-ent EMPLEADO
-ent DEPARTAMENTO
-
-// Atributos
-key_att DNI -> EMPLEADO
-att Nombre -> EMPLEADO
-att Nombre -> DEPARTAMENTO
-
-// Relaciones
-rel TRABAJA_EN
-link EMPLEADO TRABAJA_EN "N" [total]
-link DEPARTAMENTO TRABAJA_EN "1"
-\`\`\`
-
-### Tu Tarea:
-
-Genera el código EER Studio para el siguiente problema. Identifica correctamente claves, cardinalidades, jerarquías y entidades débiles. Puedes sugerir coordenadas aproximadas para evitar superposiciones.
-
-**Problema a modelar:**
-[AQUÍ PEGA TU PROBLEMA DE BASE DE DATOS]`}
+{AI_PROMPT}
                 </pre>
               </div>
 
@@ -834,6 +1087,30 @@ Genera el código EER Studio para el siguiente problema. Identifica correctament
         </div>
       )}
 
+      {showRelational && (
+        <RelationalSchemaDialog nodes={model.nodes} links={model.links} onClose={() => setShowRelational(false)} />
+      )}
+
+      {showSqlExport && (
+        <SqlExportDialog nodes={model.nodes} links={model.links} onClose={() => setShowSqlExport(false)} />
+      )}
+
+      {showTextExport && (
+        <TextExportDialog nodes={model.nodes} links={model.links} onClose={() => setShowTextExport(false)} />
+      )}
+
+      {showExport && (
+        <ExportDialog nodes={nodes} links={links} notation={notation} onClose={() => setShowExport(false)} />
+      )}
+
+      {comparison && (
+        <CompareDialog beforeName={comparison.name} before={comparison.model} after={model} notation={notation} onClose={() => setComparison(null)} />
+      )}
+
+      {gradingReference && (
+        <GradingDialog referenceName={gradingReference.name} reference={gradingReference.model} submissionName={fileName} submission={model} onClose={() => setGradingReference(null)} />
+      )}
+
       {showCredits && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
           <div className="w-full max-w-md rounded-xl bg-gradient-to-br from-indigo-50 to-white p-8 shadow-2xl border border-indigo-100">
@@ -904,7 +1181,10 @@ Genera el código EER Studio para el siguiente problema. Identifica correctament
                 <h3 className="mb-2 font-bold text-indigo-600">Atributos</h3>
                 <ul className="space-y-2">
                   <li className="flex flex-col"><code className="bg-slate-100 px-1 py-0.5 rounded text-slate-800 w-fit">att NOMBRE -&gt; ENTIDAD</code> <span>Atributo simple.</span></li>
+                  <li className="flex flex-col"><code className="bg-slate-100 px-1 py-0.5 rounded text-slate-800 w-fit">att NOMBRE -&gt; RELACION</code> <span>Atributo de una relación.</span></li>
                   <li className="flex flex-col"><code className="bg-slate-100 px-1 py-0.5 rounded text-slate-800 w-fit">key_att NOMBRE -&gt; ENTIDAD</code> <span>Atributo clave.</span></li>
+                  <li className="flex flex-col"><code className="bg-slate-100 px-1 py-0.5 rounded text-slate-800 w-fit">partial_key_att NOMBRE -&gt; DEBIL</code> <span>Clave parcial (subrayado discontinuo).</span></li>
+                  <li className="flex flex-col"><code className="bg-slate-100 px-1 py-0.5 rounded text-slate-800 w-fit">att SUB -&gt; ENTIDAD.ATRIBUTO</code> <span>Subatributo de un atributo compuesto.</span></li>
                   <li className="flex flex-col"><code className="bg-slate-100 px-1 py-0.5 rounded text-slate-800 w-fit">derived_att NOMBRE</code> <span>Derivado.</span></li>
                   <li className="flex flex-col"><code className="bg-slate-100 px-1 py-0.5 rounded text-slate-800 w-fit">multivalued_attribute</code> <span>Multivaluado.</span></li>
                 </ul>
@@ -914,14 +1194,20 @@ Genera el código EER Studio para el siguiente problema. Identifica correctament
                 <ul className="space-y-2">
                   <li className="flex flex-col"><code className="bg-slate-100 px-1 py-0.5 rounded text-slate-800 w-fit">link A B "1"</code> <span>Conexión simple.</span></li>
                   <li className="flex flex-col"><code className="bg-slate-100 px-1 py-0.5 rounded text-slate-800 w-fit">link A B "N" [total]</code> <span>Participación total.</span></li>
+                  <li className="flex flex-col"><code className="bg-slate-100 px-1 py-0.5 rounded text-slate-800 w-fit">link A B (0,N)</code> <span>Restricción (min,max): participación mínima y máxima de A.</span></li>
+                  <li className="flex flex-col"><code className="bg-slate-100 px-1 py-0.5 rounded text-slate-800 w-fit">link A R "1" role:jefe</code> <span>Rol de A en R (obligatorio si A participa dos veces).</span></li>
+                  <li className="flex flex-col"><code className="bg-slate-100 px-1 py-0.5 rounded text-slate-800 w-fit">link C R "M"</code> <span>Un tercer link hace la relación ternaria (n-aria).</span></li>
                 </ul>
               </div>
               <div>
                 <h3 className="mb-2 font-bold text-indigo-600">EER (Avanzado)</h3>
                 <ul className="space-y-2">
-                  <li className="flex flex-col"><code className="bg-slate-100 px-1 py-0.5 rounded text-slate-800 w-fit">spec d -&gt; SUPERCLASE</code> <span>Especialización.</span></li>
+                  <li className="flex flex-col"><code className="bg-slate-100 px-1 py-0.5 rounded text-slate-800 w-fit">spec d -&gt; SUPERCLASE</code> <span>Especialización (total; añade [partial] si es parcial).</span></li>
                   <li className="flex flex-col"><code className="bg-slate-100 px-1 py-0.5 rounded text-slate-800 w-fit">link d SUBCLASE</code> <span>Conecta subclase.</span></li>
+                  <li className="flex flex-col"><code className="bg-slate-100 px-1 py-0.5 rounded text-slate-800 w-fit">spec d on Tipo -&gt; SUPERCLASE</code> <span>Definida por atributo; el valor va en cada link d SUBCLASE "valor".</span></li>
                   <li className="flex flex-col"><code className="bg-slate-100 px-1 py-0.5 rounded text-slate-800 w-fit">union u</code> <span>Categoría de Unión.</span></li>
+                  <li className="flex flex-col"><code className="bg-slate-100 px-1 py-0.5 rounded text-slate-800 w-fit">view NOMBRE</code> <span>Vista: las líneas show ELEMENTO (x, y) siguientes la componen.</span></li>
+                  <li className="flex flex-col"><code className="bg-slate-100 px-1 py-0.5 rounded text-slate-800 w-fit">include "otro.eer"</code> <span>Añade las definiciones de otro archivo (ábrelo junto al diagrama).</span></li>
                 </ul>
               </div>
             </div>
@@ -0,0 +1,243 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import React, { useLayoutEffect, useMemo, useRef, useState, forwardRef, useImperativeHandle } from 'react';
+import { getCompletions, highlightLine, parseDocument, type CompletionResult, type Diagnostic, type HighlightKind } from '../eer';
+
+export interface CodeEditorHandle {
+  revealLine: (line: number, column?: number) => void;
+  /** Desplaza el editor hasta la línea, sin moverle el foco ni el cursor */
+  scrollToLine: (line: number) => void;
+}
+
+interface CodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  diagnostics: Diagnostic[];
+  highlightedLines?: ReadonlySet<number>; // 1-based
+  onCursorLineChange?: (line: number) => void;
+}
+
+// Sólo colores: en una fuente monoespaciada la negrita o la cursiva podrían descuadrar el texto con el textarea
+const TOKEN_CLASSES: Record<HighlightKind, string> = {
+  keyword: 'text-indigo-600',
+  name: 'text-slate-900',
+  reference: 'text-teal-700',
+  arrow: 'text-slate-400',
+  string: 'text-amber-700',
+  flag: 'text-rose-600',
+  role: 'text-fuchsia-700',
+  coords: 'text-sky-600',
+  constraint: 'text-violet-600',
+  comment: 'text-slate-400',
+  invalid: 'text-red-600',
+  text: 'text-slate-700',
+};
+
+const PADDING = 16; // px-4 / py-4
+
+/**
+ * Editor de código con gutter de números de línea, resaltado de sintaxis,
+ * errores en línea y autocompletado (Ctrl+Espacio para abrirlo a mano).
+ * El texto se escribe en un textarea transparente sobre una capa coloreada;
+ * las líneas no se ajustan (wrap="off") para que ambas queden alineadas.
+ */
+function CodeEditor({ value, onChange, diagnostics, highlightedLines, onCursorLineChange }: CodeEditorProps, ref: React.Ref<CodeEditorHandle>) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const measureRef = useRef<HTMLSpanElement>(null);
+  const [scroll, setScroll] = useState({ top: 0, left: 0 });
+  // Sugerencias abiertas; `anchor` es la posición de la lista en el contenido (sin desplazamiento)
+  const [completion, setCompletion] = useState<{ result: CompletionResult; selected: number; anchor: { left: number; top: number } } | null>(null);
+  const pendingCaret = useRef<number | null>(null);
+
+  const lines = useMemo(() => parseDocument(value).lines, [value]);
+
+  // Peor severidad y mensajes por línea para pintar el gutter
+  const markers = new Map<number, { severity: Diagnostic['severity']; messages: string[]; columns: Set<number> }>();
+  diagnostics.forEach(d => {
+    const current = markers.get(d.line);
+    if (current) {
+      if (d.severity === 'error' && current.severity !== 'error') {
+        current.severity = 'error';
+        current.messages.unshift(d.message);
+      } else {
+        current.messages.push(d.message);
+      }
+      current.columns.add(d.column);
+    } else {
+      markers.set(d.line, { severity: d.severity, messages: [d.message], columns: new Set([d.column]) });
+    }
+  });
+
+  const lineHeightOf = (textarea: HTMLTextAreaElement) => parseFloat(getComputedStyle(textarea).lineHeight) || 24;
+
+  useImperativeHandle(ref, () => ({
+    revealLine: (line: number, column = 1) => {
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+      const lines = textarea.value.split('\n');
+      const target = Math.min(Math.max(line, 1), lines.length);
+      let start = 0;
+      for (let i = 0; i < target - 1; i++) start += lines[i].length + 1;
+      const end = start + lines[target - 1].length;
+      textarea.focus();
+      textarea.setSelectionRange(Math.min(start + column - 1, end), end);
+      // Centrar la línea en el área visible
+      textarea.scrollTop = Math.max(0, (target - 1) * lineHeightOf(textarea) - textarea.clientHeight / 2);
+    },
+    scrollToLine: (line: number) => {
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+      const lineHeight = lineHeightOf(textarea);
+      const top = (line - 1) * lineHeight;
+      // Sólo se desplaza si la línea no está ya a la vista
+      if (top < textarea.scrollTop || top + lineHeight > textarea.scrollTop + textarea.clientHeight) {
+        textarea.scrollTop = Math.max(0, top - textarea.clientHeight / 2);
+      }
+    },
+  }));
+
+  // Tras aceptar una sugerencia, el cursor va al final del texto insertado
+  useLayoutEffect(() => {
+    if (pendingCaret.current === null || !textareaRef.current) return;
+    textareaRef.current.setSelectionRange(pendingCaret.current, pendingCaret.current);
+    pendingCaret.current = null;
+  }, [value]);
+
+  // Al escribir se sugieren comandos si ya hay un prefijo y referencias siempre; a mano (forced), cualquier cosa
+  const updateCompletion = (text: string, caret: number, forced = false) => {
+    const result = getCompletions(text, caret);
+    const textarea = textareaRef.current;
+    if (result && textarea && (forced || result.context === 'reference' || result.to > result.from)) {
+      // Bajo el comienzo de la palabra que se completa
+      const before = text.slice(0, result.from).split('\n');
+      const charWidth = measureRef.current?.getBoundingClientRect().width || 8;
+      const anchor = { left: PADDING + before[before.length - 1].length * charWidth, top: PADDING + before.length * lineHeightOf(textarea) };
+      setCompletion({ result, selected: 0, anchor });
+    } else {
+      setCompletion(null);
+    }
+  };
+
+  const accept = (index: number) => {
+    if (!completion) return;
+    const { result } = completion;
+    const insert = result.items[index].label + (result.context === 'command' ? ' ' : '');
+    pendingCaret.current = result.from + insert.length;
+    setCompletion(null);
+    onChange(value.slice(0, result.from) + insert + value.slice(result.to));
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    onChange(e.target.value);
+    updateCompletion(e.target.value, e.target.selectionEnd);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === ' ' && e.ctrlKey) {
+      e.preventDefault();
+      updateCompletion(value, e.currentTarget.selectionEnd, true);
+      return;
+    }
+    if (!completion) return;
+    const count = completion.result.items.length;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : count - 1;
+      setCompletion({ ...completion, selected: (completion.selected + step) % count });
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      accept(completion.selected);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setCompletion(null);
+    }
+  };
+
+  // Línea (1-based) en la que está el cursor; la sugerencia se cierra si el cursor sale de la palabra
+  const handleSelect = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    const textarea = e.currentTarget;
+    if (completion && (textarea.selectionEnd < completion.result.from || textarea.selectionEnd > completion.result.to)) setCompletion(null);
+    onCursorLineChange?.(textarea.value.slice(0, textarea.selectionStart).split('\n').length);
+  };
+
+  return (
+    <div className="relative flex flex-1 overflow-hidden bg-slate-50">
+      <div className="w-12 flex-shrink-0 overflow-hidden border-r border-slate-200 bg-slate-100 select-none">
+        <div className="py-4 font-mono text-xs md:text-sm leading-6 text-slate-400" style={{ transform: `translateY(${-scroll.top}px)` }}>
+          {lines.map((_, i) => {
+            const marker = markers.get(i + 1);
+            return (
+              <div key={i} className="flex items-center justify-end gap-1 pr-2" title={marker?.messages.join('\n')}>
+                {marker && (
+                  <span className={`h-2 w-2 rounded-full ${marker.severity === 'error' ? 'bg-red-500' : 'bg-amber-400'}`} />
+                )}
+                <span className={marker ? (marker.severity === 'error' ? 'text-red-600' : 'text-amber-600') : highlightedLines?.has(i + 1) ? 'font-semibold text-indigo-600' : ''}>{i + 1}</span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+      <div className="relative flex-1 overflow-hidden">
+        <div className="pointer-events-none absolute left-0 top-0 min-w-full py-4 font-mono text-xs md:text-sm leading-6" style={{ transform: `translate(${-scroll.left}px, ${-scroll.top}px)` }}>
+          {lines.map((line, i) => {
+            const marker = markers.get(i + 1);
+            const wavy = marker?.severity === 'error' ? 'decoration-red-500' : 'decoration-amber-500';
+            return (
+              <div key={i} className={`h-6 w-max min-w-full whitespace-pre px-4 ${highlightedLines?.has(i + 1) ? 'bg-amber-100' : ''}`}>
+                {highlightLine(line).map((token, j) => (
+                  <React.Fragment key={j}>
+                    {token.leading}
+                    <span className={marker?.columns.has(token.column) ? `${TOKEN_CLASSES[token.kind]} underline decoration-wavy ${wavy}` : TOKEN_CLASSES[token.kind]}>{token.text}</span>
+                  </React.Fragment>
+                ))}
+                {line.trailing}
+                {marker && <span className={`ml-6 ${marker.severity === 'error' ? 'text-red-400' : 'text-amber-500'}`}>{marker.messages[0]}</span>}
+              </div>
+            );
+          })}
+        </div>
+        <span ref={measureRef} className="invisible absolute font-mono text-xs md:text-sm" aria-hidden>M</span>
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onScroll={(e) => setScroll({ top: e.currentTarget.scrollTop, left: e.currentTarget.scrollLeft })}
+          onSelect={handleSelect}
+          onBlur={() => setCompletion(null)}
+          wrap="off"
+          className="absolute inset-0 h-full w-full resize-none bg-transparent px-4 py-4 font-mono text-xs md:text-sm leading-6 text-transparent caret-slate-700 focus:outline-none selection:bg-indigo-200/60"
+          spellCheck={false}
+        />
+        {completion && (
+          <ul
+            className="absolute z-30 max-h-48 min-w-[14rem] overflow-y-auto rounded-md border border-slate-200 bg-white py-1 font-mono text-xs shadow-lg"
+            style={{ left: completion.anchor.left - scroll.left, top: completion.anchor.top - scroll.top }}
+          >
+            {completion.result.items.map((item, i) => (
+              <li
+                key={item.label}
+                ref={i === completion.selected ? el => el?.scrollIntoView({ block: 'nearest' }) : undefined}
+                // mousedown en lugar de click: el textarea no llega a perder el foco
+                onMouseDown={e => { e.preventDefault(); accept(i); }}
+                className={`flex cursor-pointer justify-between gap-4 px-3 py-1 ${i === completion.selected ? 'bg-indigo-100 text-indigo-900' : 'text-slate-700 hover:bg-slate-50'}`}
+              >
+                <span>{item.label}</span>
+                <span className="font-sans text-slate-400">{item.detail}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default forwardRef(CodeEditor);
@@ -0,0 +1,80 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import { useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { DIFF_COLORS, diffColors, diffModels, type DiffStatus, type LinkData, type NodeData, type Notation } from '../eer';
+import { StaticDiagram } from './DiagramShapes';
+
+interface CompareDialogProps {
+  beforeName: string;
+  before: { nodes: NodeData[]; links: LinkData[] };
+  after: { nodes: NodeData[]; links: LinkData[] };
+  notation?: Notation;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<DiffStatus, string> = {
+  added: 'Añadido',
+  removed: 'Eliminado',
+  renamed: 'Renombrado',
+  changed: 'Modificado',
+  moved: 'Movido',
+};
+
+/**
+ * Comparación de otra versión del diagrama (antes) con la actual (después):
+ * lista de cambios del modelo y diagrama combinado con los cambios en color.
+ */
+export default function CompareDialog({ beforeName, before, after, notation, onClose }: CompareDialogProps) {
+  const [includeMoves, setIncludeMoves] = useState(false);
+  const diff = useMemo(() => diffModels(before, after, { includeMoves }), [before, after, includeMoves]);
+  const { nodeColors, linkColors } = useMemo(() => diffColors(diff), [diff]);
+  const legend = (Object.keys(STATUS_LABELS) as DiffStatus[]).filter(s => s !== 'changed' && (includeMoves || s !== 'moved'));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="w-full max-w-5xl rounded-xl bg-white p-6 shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="flex items-center justify-between border-b border-slate-100 pb-4 flex-shrink-0">
+          <h2 className="text-lg font-bold text-slate-800">Comparar con <span className="font-mono">{beforeName}</span></h2>
+          <button onClick={onClose} className="rounded-full p-1 hover:bg-slate-100"><X className="h-5 w-5 text-slate-500" /></button>
+        </div>
+        <div className="flex flex-wrap items-center gap-4 py-3 text-sm text-slate-600 flex-shrink-0">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={includeMoves} onChange={e => setIncludeMoves(e.target.checked)} />
+            Incluir cambios de posición
+          </label>
+          <div className="ml-auto flex items-center gap-3 text-xs">
+            {legend.map(status => (
+              <span key={status} className="flex items-center gap-1">
+                <span className="inline-block h-3 w-3 rounded-sm" style={{ backgroundColor: DIFF_COLORS[status] }} />
+                {status === 'renamed' ? 'Renombrado o modificado' : STATUS_LABELS[status]}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex min-h-0 flex-1 gap-4">
+          <ul className="w-80 flex-shrink-0 overflow-y-auto space-y-1 text-xs text-slate-700">
+            {diff.changes.length === 0 && <li className="text-slate-500">No hay diferencias en el modelo.</li>}
+            {diff.changes.map((change, i) => (
+              <li key={i} className="flex gap-2">
+                <span className="flex-shrink-0 rounded px-1.5 font-medium text-white" style={{ backgroundColor: DIFF_COLORS[change.status] }}>{STATUS_LABELS[change.status]}</span>
+                <span>{change.message}</span>
+              </li>
+            ))}
+          </ul>
+          <div className="flex-1 overflow-auto rounded border border-slate-200 p-3 [&>svg]:mx-auto [&>svg]:h-auto [&>svg]:max-w-full">
+            <StaticDiagram nodes={diff.nodes} links={diff.links} notation={notation} background="#ffffff" nodeColors={nodeColors} linkColors={linkColors} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
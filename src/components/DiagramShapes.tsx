@@ -0,0 +1,384 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import { binaryOpposites, collapsedRelationships, crowsFootEnd, getDiagramBounds, linkCaption, NODE_HALF_SIZE, type CollapsedRelationship, type LinkData, type NodeData, type Notation } from '../eer';
+
+/**
+ * FORMAS DEL DIAGRAMA: nodos y conexiones en SVG, compartidos por el canvas
+ * interactivo y por la exportación sin navegador (CLI).
+ */
+export function NodeShape({ node }: { node: NodeData }) {
+  const strokeColor = '#334155';
+  const strokeWidth = 2;
+  const fillColor = '#ffffff';
+  const textColor = '#0f172a';
+
+  switch (node.type) {
+    case 'entity':
+      return (
+        <g>
+          <rect x="-50" y="-25" width="100" height="50" fill={fillColor} stroke={strokeColor} strokeWidth={strokeWidth} rx="2" className="drop-shadow-sm" />
+          <text x="0" y="5" textAnchor="middle" fill={textColor} fontSize="12" fontWeight="bold" style={{ pointerEvents: 'none', userSelect: 'none' }}>{node.label}</text>
+        </g>
+      );
+    case 'weak_entity':
+      return (
+        <g>
+          <rect x="-50" y="-25" width="100" height="50" fill={fillColor} stroke={strokeColor} strokeWidth={strokeWidth} rx="2" className="drop-shadow-sm"/>
+          <rect x="-44" y="-19" width="88" height="38" fill="none" stroke={strokeColor} strokeWidth={strokeWidth} rx="1" />
+          <text x="0" y="5" textAnchor="middle" fill={textColor} fontSize="12" fontWeight="bold" style={{ pointerEvents: 'none', userSelect: 'none' }}>{node.label}</text>
+        </g>
+      );
+    case 'relationship':
+      return (
+        <g>
+          <polygon points="0,-40 60,0 0,40 -60,0" fill="#f8fafc" stroke={strokeColor} strokeWidth={strokeWidth} className="drop-shadow-sm"/>
+          <text x="0" y="5" textAnchor="middle" fill={textColor} fontSize="11" fontWeight="bold" style={{ pointerEvents: 'none', userSelect: 'none' }}>{node.label}</text>
+        </g>
+      );
+    case 'identifying_relationship':
+      return (
+        <g>
+          <polygon points="0,-40 60,0 0,40 -60,0" fill="#f8fafc" stroke={strokeColor} strokeWidth={strokeWidth} className="drop-shadow-sm"/>
+          <polygon points="0,-32 48,0 0,32 -48,0" fill="none" stroke={strokeColor} strokeWidth={strokeWidth} />
+          <text x="0" y="5" textAnchor="middle" fill={textColor} fontSize="11" fontWeight="bold" style={{ pointerEvents: 'none', userSelect: 'none' }}>{node.label}</text>
+        </g>
+      );
+    case 'attribute':
+    case 'key_attribute':
+    case 'partial_key_attribute':
+    case 'multivalued_attribute':
+    case 'derived_attribute':
+    {
+      const isKey = node.type === 'key_attribute';
+      const isPartialKey = node.type === 'partial_key_attribute';
+      const isMulti = node.type === 'multivalued_attribute';
+      const isDerived = node.type === 'derived_attribute';
+      // SVG no permite subrayado discontinuo: se dibuja una línea bajo el texto (ancho aproximado)
+      const underlineWidth = node.label.length * 6.2;
+      return (
+        <g>
+          <ellipse cx="0" cy="0" rx="45" ry="25" fill="#f1f5f9" stroke={strokeColor} strokeWidth={strokeWidth} strokeDasharray={isDerived ? "4" : "0"} className="drop-shadow-sm"/>
+          {isMulti && <ellipse cx="0" cy="0" rx="38" ry="18" fill="none" stroke={strokeColor} strokeWidth={strokeWidth} />}
+          <text x="0" y="4" textAnchor="middle" fill={textColor} fontSize="11" textDecoration={isKey ? "underline" : "none"} style={{ pointerEvents: 'none', userSelect: 'none' }}>{node.label}</text>
+          {isPartialKey && <line x1={-underlineWidth / 2} y1="7" x2={underlineWidth / 2} y2="7" stroke={textColor} strokeWidth="1" strokeDasharray="3 2" />}
+        </g>
+      );
+    }
+    case 'specialization':
+    case 'union':
+      return (
+        <g>
+          <circle cx="0" cy="0" r="18" fill="#fff" stroke={strokeColor} strokeWidth={strokeWidth} className="drop-shadow-sm"/>
+          <text x="0" y="5" textAnchor="middle" fontWeight="bold" fontSize="14" style={{ pointerEvents: 'none', userSelect: 'none' }}>{node.label}</text>
+        </g>
+      );
+    default:
+      return null;
+  }
+}
+
+interface DiagramLinksProps {
+  nodes: NodeData[];
+  links: LinkData[];
+  notation?: Notation;
+  highlightedLines?: ReadonlySet<number>; // Conexiones resaltadas, por línea del código principal que las define
+  linkColors?: ReadonlyMap<LinkData, string>; // Halo de color de algunas conexiones (comparación de versiones)
+}
+
+const HIGHLIGHT_COLOR = '#f59e0b';
+
+type Point = { x: number; y: number };
+
+const PARALLEL_GAP = 50; // Separación entre conexiones que unen los mismos nodos
+
+/**
+ * Curvatura de cada conexión dada por sus extremos: las que unen el mismo par
+ * de nodos (como las dos de una relación recursiva) se abren en arcos
+ * simétricos. El signo se refiere al sentido del id menor al mayor.
+ */
+const parallelBends = (ends: [string, string][]) => {
+  const groups = new Map<string, number[]>();
+  ends.forEach(([a, b], i) => {
+    const key = a < b ? `${a}\n${b}` : `${b}\n${a}`;
+    groups.set(key, [...(groups.get(key) ?? []), i]);
+  });
+  const bends = ends.map(() => 0);
+  groups.forEach(indices => indices.forEach((index, i) => {
+    const [a, b] = ends[index];
+    bends[index] = (i - (indices.length - 1) / 2) * PARALLEL_GAP * (a < b ? 1 : -1);
+  }));
+  return bends;
+};
+
+// Recta o arco cuadrático de `from` a `to` cuyo punto medio se aparta `bend` de la recta
+const linkGeometry = (from: Point, to: Point, bend: number) => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const length = Math.hypot(dx, dy) || 1;
+  const normal = { x: -dy / length, y: dx / length };
+  const mid = { x: (from.x + to.x) / 2 + normal.x * bend, y: (from.y + to.y) / 2 + normal.y * bend };
+  const control = { x: (from.x + to.x) / 2 + normal.x * 2 * bend, y: (from.y + to.y) / 2 + normal.y * 2 * bend };
+  const d = bend === 0 ? `M ${from.x} ${from.y} L ${to.x} ${to.y}` : `M ${from.x} ${from.y} Q ${control.x} ${control.y} ${to.x} ${to.y}`;
+  return { d, mid, control, normal };
+};
+
+const isEntityNode = (node?: NodeData): node is NodeData => node?.type === 'entity' || node?.type === 'weak_entity';
+const isRelationshipNode = (node?: NodeData): node is NodeData => node?.type === 'relationship' || node?.type === 'identifying_relationship';
+
+/**
+ * Puntos de enganche en el rombo de las relaciones n-arias (tres o más
+ * participantes): vértices y puntos medios de los lados, repartidos entre las
+ * conexiones según la dirección de cada participante para que no coincidan.
+ */
+const naryAttachments = (nodes: NodeData[], links: LinkData[]) => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const attachments = new Map<LinkData, Point>();
+  nodes.filter(isRelationshipNode).forEach(rel => {
+    const participants = links.flatMap(link => {
+      const other = byId.get(link.source === rel.id ? link.target : link.target === rel.id ? link.source : '');
+      return isEntityNode(other) ? [{ link, angle: Math.atan2(other.y - rel.y, other.x - rel.x) }] : [];
+    });
+    if (participants.length < 3) return;
+    const { w, h } = NODE_HALF_SIZE[rel.type];
+    const slots = [[w, 0], [w / 2, h / 2], [0, h], [-w / 2, h / 2], [-w, 0], [-w / 2, -h / 2], [0, -h], [w / 2, -h / 2]]
+      .map(([x, y]) => ({ x: rel.x + x, y: rel.y + y, angle: Math.atan2(y, x), used: false }));
+    const distance = (a: number, b: number) => Math.abs(Math.atan2(Math.sin(a - b), Math.cos(a - b)));
+    participants.forEach(({ link, angle }) => {
+      // El hueco libre más cercano a la dirección del participante (si no quedan, el más cercano)
+      const free = slots.filter(slot => !slot.used);
+      const slot = (free.length > 0 ? free : slots).reduce((best, slot) => distance(slot.angle, angle) < distance(best.angle, angle) ? slot : best);
+      slot.used = true;
+      attachments.set(link, { x: slot.x, y: slot.y });
+    });
+  });
+  return attachments;
+};
+
+// Punto del borde del rectángulo de la entidad en dirección a `toward`
+const entityBorder = (entity: NodeData, toward: Point) => {
+  const { w, h } = NODE_HALF_SIZE[entity.type];
+  const dx = toward.x - entity.x;
+  const dy = toward.y - entity.y;
+  const t = Math.min(dx === 0 ? Infinity : w / Math.abs(dx), dy === 0 ? Infinity : h / Math.abs(dy), 1);
+  return { x: entity.x + dx * t, y: entity.y + dy * t };
+};
+
+/**
+ * Relación binaria en pata de gallo: una línea entre las entidades con el
+ * nombre en el centro y, en cada extremo, el máximo (junto a la entidad) y el mínimo.
+ */
+function CrowsFootLink({ relationship, bend, halo }: { relationship: CollapsedRelationship; bend: number; halo?: string }) {
+  const [a, b] = relationship.ends;
+  // Los extremos se calculan hacia el punto de control del arco para que los símbolos sigan la curva
+  const control = linkGeometry(a, b, bend).control;
+  const towardB = bend === 0 ? b : control;
+  const towardA = bend === 0 ? a : control;
+  const from = entityBorder(a, towardB);
+  const to = entityBorder(b, towardA);
+  const { d, mid } = linkGeometry(from, to, bend);
+  const label = relationship.relationship.label;
+  const stroke = '#64748b';
+
+  const marker = (end: NodeData, point: Point, toward: Point, index: 0 | 1) => {
+    const { min, many } = crowsFootEnd(relationship, index);
+    const angle = Math.atan2(toward.y - end.y, toward.x - end.x) * 180 / Math.PI;
+    return (
+      // Eje x local: desde el borde de la entidad hacia el otro extremo
+      <g transform={`translate(${point.x}, ${point.y}) rotate(${angle})`} stroke={stroke} strokeWidth={1.5} fill="white">
+        {many
+          ? <path d="M 14 0 L 0 -8 M 14 0 L 0 0 M 14 0 L 0 8" fill="none" />
+          : <line x1="8" y1="-8" x2="8" y2="8" />}
+        {min === 0
+          ? <circle cx="22" cy="0" r="4" />
+          : <line x1="20" y1="-8" x2="20" y2="8" />}
+      </g>
+    );
+  };
+
+  return (
+    <g>
+      {halo && <path d={d} fill="none" stroke={halo} strokeOpacity={0.45} strokeWidth={10} strokeLinecap="round" />}
+      <path d={d} fill="none" stroke={stroke} strokeWidth={1.5} />
+      {marker(a, from, towardB, 0)}
+      {marker(b, to, towardA, 1)}
+      <g transform={`translate(${mid.x}, ${mid.y})`}>
+        <rect x={-(label.length * 3.5 + 6)} y="-10" width={label.length * 7 + 12} height="20" fill="white" opacity="0.9" rx="4" />
+        <text x="0" y="4" textAnchor="middle" fontSize="11" fontStyle="italic" fill="#0f172a" style={{ pointerEvents: 'none', userSelect: 'none' }}>{label}</text>
+      </g>
+    </g>
+  );
+}
+
+export function DiagramLinks({ nodes, links, notation = 'chen', highlightedLines, linkColors }: DiagramLinksProps) {
+  const opposites = binaryOpposites(nodes, links);
+  const attachments = naryAttachments(nodes, links);
+  const collapsed = notation === 'crowsfoot' ? [...collapsedRelationships(nodes, links).values()] : [];
+  const collapsedLinks = new Set(collapsed.flatMap(c => c.links));
+  const regularLinks = links.filter(link => !collapsedLinks.has(link));
+  const bends = parallelBends([
+    ...regularLinks.map((link): [string, string] => [link.source, link.target]),
+    ...collapsed.map((c): [string, string] => [c.ends[0].id, c.ends[1].id]),
+  ]);
+
+  const regular = regularLinks.map((link, i) => {
+    const sourceNode = nodes.find(n => n.id === link.source);
+    const targetNode = nodes.find(n => n.id === link.target);
+    if (!sourceNode || !targetNode) return null;
+
+    // CORRECCIÓN FINAL:
+    // 1. Detectar si el origen es una especialización/unión y el destino es una entidad (subclase/categoría).
+    // 2. El símbolo de subconjunto debe abrirse hacia el ORIGEN (la especialización).
+
+    const isSourceSpec = sourceNode.type === 'specialization' || sourceNode.type === 'union';
+    const isTargetEntity = targetNode.type === 'entity' || targetNode.type === 'weak_entity';
+    const showSubsetSymbol = isSourceSpec && isTargetEntity;
+
+    // En las n-arias la conexión llega a su punto del rombo y el rótulo se pone junto a él,
+    // para que quede claro a qué participante corresponde
+    const attachment = attachments.get(link);
+    const relationshipAtSource = !!attachment && isRelationshipNode(sourceNode);
+    const from = attachment && relationshipAtSource ? attachment : sourceNode;
+    const to = attachment && !relationshipAtSource ? attachment : targetNode;
+    const bend = bends[i];
+    const { d, mid, normal } = linkGeometry(from, to, bend);
+    const [near, far] = relationshipAtSource ? [from, to] : [to, from];
+    const nearLength = Math.hypot(far.x - near.x, far.y - near.y) || 1;
+    const labelDistance = Math.min(30, nearLength / 2);
+    const { x: midX, y: midY } = attachment
+      ? { x: near.x + (far.x - near.x) / nearLength * labelDistance, y: near.y + (far.y - near.y) / nearLength * labelDistance }
+      : mid;
+
+    // Calcular ángulo para rotar el símbolo correctamente
+    const angle = Math.atan2(targetNode.y - sourceNode.y, targetNode.x - sourceNode.x) * 180 / Math.PI;
+
+    // En la pata de gallo, las conexiones de relaciones que conservan el rombo se rotulan con (min,max)
+    const caption = linkCaption(notation === 'chen' ? 'chen' : 'minmax', link, opposites.get(link));
+
+    // El rol va junto a la conexión, por fuera del arco y sin tapar la cardinalidad
+    const side = bend < 0 ? -1 : 1;
+    const roleDirection = { x: normal.x * side, y: normal.y * side };
+    const roleDistance = 14 + (caption ? caption.length * 3.5 * Math.abs(roleDirection.x) : 0);
+    const halo = linkColors?.get(link) ?? (!link.file && highlightedLines?.has(link.lineIndex) ? HIGHLIGHT_COLOR : undefined);
+
+    return (
+      <g key={i}>
+        {halo && (
+          <path d={d} fill="none" stroke={halo} strokeOpacity={0.45} strokeWidth={10} strokeLinecap="round" />
+        )}
+        <path
+          d={d}
+          fill="none"
+          stroke="#64748b"
+          strokeWidth={link.style === 'double' ? 4 : 1.5}
+          strokeLinecap="round"
+        />
+        {link.style === 'double' && (
+          <path
+            d={d}
+            fill="none"
+            stroke="#ffffff"
+            strokeWidth={2}
+            strokeLinecap="round"
+          />
+        )}
+
+        {showSubsetSymbol && (
+          <path 
+            d={`M ${midX-8} ${midY-5} Q ${midX} ${midY+8} ${midX+8} ${midY-5}`}
+            fill="none"
+            stroke="#64748b"
+            strokeWidth="2"
+            // Rotación ajustada: angle - 90 asegura que la copa se abra hacia el nodo Origen (la especialización)
+            transform={`rotate(${angle - 90}, ${midX}, ${midY})`}
+          />
+        )}
+
+        {caption && (
+          <g transform={`translate(${midX}, ${midY})`}>
+            <rect x={-(caption.length * 3.5 + 3)} y="-10" width={Math.max(20, caption.length * 7 + 6)} height="20" fill="white" opacity="0.9" rx="4" />
+            <text x="0" y="5" textAnchor="middle" fontSize="12" fontWeight="bold" fill="#0f172a" style={{ pointerEvents: 'none', userSelect: 'none' }}>{caption}</text>
+          </g>
+        )}
+
+        {link.role && (
+          <text
+            x={midX + roleDirection.x * roleDistance}
+            y={midY + roleDirection.y * roleDistance + (roleDirection.y > 0.5 ? 10 : roleDirection.y < -0.5 ? -2 : 4)}
+            textAnchor={Math.abs(roleDirection.x) > 0.5 ? (roleDirection.x > 0 ? 'start' : 'end') : 'middle'}
+            fontSize="11"
+            fontStyle="italic"
+            fill="#475569"
+            stroke="#ffffff"
+            strokeWidth={3}
+            paintOrder="stroke"
+            style={{ pointerEvents: 'none', userSelect: 'none' }}
+          >
+            {link.role}
+          </text>
+        )}
+      </g>
+    );
+  });
+
+  return (
+    <>
+      {regular}
+      {collapsed.map((c, i) => (
+        <CrowsFootLink
+          key={c.relationship.id}
+          relationship={c}
+          bend={bends[regularLinks.length + i]}
+          halo={c.links.map(l => linkColors?.get(l)).find(Boolean)
+            ?? (c.links.some(l => !l.file && highlightedLines?.has(l.lineIndex)) || (!c.relationship.file && highlightedLines?.has(c.relationship.lineIndex)) ? HIGHLIGHT_COLOR : undefined)}
+        />
+      ))}
+    </>
+  );
+}
+
+interface StaticDiagramProps {
+  nodes: NodeData[];
+  links: LinkData[];
+  notation?: Notation;
+  margin?: number;
+  background?: string; // Sin fondo: transparente
+  nodeColors?: ReadonlyMap<string, string>; // Halo de color detrás de algunos nodos (comparación de versiones)
+  linkColors?: ReadonlyMap<LinkData, string>;
+}
+
+/**
+ * Diagrama completo como un <svg> independiente, ajustado a su contenido.
+ */
+export function StaticDiagram({ nodes, links, notation = 'chen', margin = 40, background, nodeColors, linkColors }: StaticDiagramProps) {
+  // Los rombos de las relaciones dibujadas como una línea no se muestran
+  const hidden = notation === 'crowsfoot' ? collapsedRelationships(nodes, links) : new Map();
+  const visible = nodes.filter(node => !hidden.has(node.id));
+  const bounds = getDiagramBounds(visible) ?? { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+  const x = bounds.minX - margin;
+  const y = bounds.minY - margin;
+  const width = bounds.maxX - bounds.minX + 2 * margin;
+  const height = bounds.maxY - bounds.minY + 2 * margin;
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" width={width} height={height} viewBox={`${x} ${y} ${width} ${height}`} fontFamily="ui-sans-serif, system-ui, sans-serif">
+      {background && <rect x={x} y={y} width={width} height={height} fill={background} />}
+      <DiagramLinks nodes={nodes} links={links} notation={notation} linkColors={linkColors} />
+      {visible.map(node => (
+        <g key={node.id} transform={`translate(${node.x}, ${node.y})`}>
+          {nodeColors?.has(node.id) && (() => {
+            const { w, h } = NODE_HALF_SIZE[node.type];
+            const color = nodeColors.get(node.id);
+            return <rect x={-w - 8} y={-h - 8} width={2 * w + 16} height={2 * h + 16} rx="6" fill={color} fillOpacity={0.2} stroke={color} strokeWidth="1.5" strokeDasharray="5 3" />;
+          })()}
+          <NodeShape node={node} />
+        </g>
+      ))}
+    </svg>
+  );
+}
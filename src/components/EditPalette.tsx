@@ -0,0 +1,125 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import { useState, type ReactNode } from 'react';
+import { Trash2 } from 'lucide-react';
+
+// Tipo MIME con el que los elementos de la paleta se arrastran al canvas
+export const PALETTE_MIME = 'application/x-eer-command';
+
+interface PaletteItem {
+  command: string; // Comando del DSL que genera
+  title: string;
+  glyph: ReactNode;
+}
+
+const stroke = { fill: 'white', stroke: '#334155', strokeWidth: 1.5 };
+
+const ITEMS: PaletteItem[] = [
+  { command: 'ent', title: 'Entidad', glyph: <rect x="3" y="7" width="22" height="14" {...stroke} /> },
+  {
+    command: 'weak_ent', title: 'Entidad débil',
+    glyph: <><rect x="3" y="7" width="22" height="14" {...stroke} /><rect x="6" y="10" width="16" height="8" {...stroke} /></>,
+  },
+  { command: 'rel', title: 'Relación', glyph: <polygon points="14,5 26,14 14,23 2,14" {...stroke} /> },
+  {
+    command: 'ident_rel', title: 'Relación identificativa',
+    glyph: <><polygon points="14,5 26,14 14,23 2,14" {...stroke} /><polygon points="14,9 20.5,14 14,19 7.5,14" {...stroke} /></>,
+  },
+  { command: 'att', title: 'Atributo (de la entidad o relación seleccionada)', glyph: <ellipse cx="14" cy="14" rx="11" ry="7" {...stroke} /> },
+  {
+    command: 'key_att', title: 'Atributo clave (de la entidad seleccionada)',
+    glyph: <><ellipse cx="14" cy="14" rx="11" ry="7" {...stroke} /><line x1="9" y1="16" x2="19" y2="16" stroke="#334155" strokeWidth="1.5" /></>,
+  },
+  {
+    command: 'spec', title: 'Especialización (de la entidad seleccionada)',
+    glyph: <><circle cx="14" cy="14" r="8" {...stroke} /><text x="14" y="17.5" textAnchor="middle" fontSize="10" fontWeight="bold" fill="#334155">d</text></>,
+  },
+  {
+    command: 'union', title: 'Unión (categoría)',
+    glyph: <><circle cx="14" cy="14" r="8" {...stroke} /><text x="14" y="17.5" textAnchor="middle" fontSize="10" fontWeight="bold" fill="#334155">u</text></>,
+  },
+];
+
+interface EditPaletteProps {
+  onAdd: (command: string) => void;
+  onDelete: () => void;
+  canDelete: boolean;
+}
+
+/**
+ * PALETA de edición visual: cada elemento se arrastra al canvas (o se pulsa
+ * para añadirlo en el centro de la vista). Los atributos y especializaciones
+ * se conectan al elemento seleccionado.
+ */
+export default function EditPalette({ onAdd, onDelete, canDelete }: EditPaletteProps) {
+  return (
+    <div className="absolute left-4 top-4 z-20 flex flex-col gap-1 rounded-lg border border-slate-200 bg-white p-1 shadow-lg" onMouseDown={e => e.stopPropagation()}>
+      {ITEMS.map(item => (
+        <button
+          key={item.command}
+          title={item.title}
+          draggable
+          onDragStart={e => {
+            e.dataTransfer.setData(PALETTE_MIME, item.command);
+            e.dataTransfer.effectAllowed = 'copy';
+          }}
+          onClick={() => onAdd(item.command)}
+          className="rounded p-1 hover:bg-slate-100"
+        >
+          <svg width="28" height="28" viewBox="0 0 28 28">{item.glyph}</svg>
+        </button>
+      ))}
+      <div className="mx-1 my-0.5 h-px bg-slate-200"></div>
+      <button
+        title="Eliminar la selección con sus conexiones y atributos (Supr)"
+        onClick={onDelete}
+        disabled={!canDelete}
+        className="flex justify-center rounded p-1.5 text-slate-600 hover:bg-red-50 hover:text-red-600 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-slate-600"
+      >
+        <Trash2 className="h-5 w-5" />
+      </button>
+    </div>
+  );
+}
+
+interface CardinalityPickerProps {
+  position: { left: number; top: number };
+  onPick: (label: string | undefined, total: boolean) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Cardinalidad (y participación) de una conexión recién trazada en el canvas.
+ */
+export function CardinalityPicker({ position, onPick, onCancel }: CardinalityPickerProps) {
+  const [total, setTotal] = useState(false);
+  return (
+    <div
+      className="absolute z-30 rounded-lg border border-slate-200 bg-white p-2 text-xs shadow-xl"
+      style={position}
+      onMouseDown={e => e.stopPropagation()}
+    >
+      <div className="mb-1.5 font-semibold text-slate-600">Cardinalidad</div>
+      <div className="flex gap-1">
+        {['1', 'N', 'M'].map(label => (
+          <button key={label} onClick={() => onPick(label, total)} className="w-8 rounded border border-slate-200 py-1 font-bold text-slate-700 hover:border-indigo-300 hover:bg-indigo-50">
+            {label}
+          </button>
+        ))}
+        <button onClick={() => onPick(undefined, total)} className="rounded border border-slate-200 px-2 py-1 text-slate-500 hover:bg-slate-50">Sin</button>
+      </div>
+      <label className="mt-2 flex items-center gap-1.5 text-slate-600">
+        <input type="checkbox" checked={total} onChange={e => setTotal(e.target.checked)} />
+        Participación total
+      </label>
+      <button onClick={onCancel} className="mt-1.5 w-full rounded py-0.5 text-slate-400 hover:bg-slate-50 hover:text-slate-600">Cancelar</button>
+    </div>
+  );
+}
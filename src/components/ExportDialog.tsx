@@ -0,0 +1,152 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import { useRef, useState } from 'react';
+import { Download, X } from 'lucide-react';
+import type { LinkData, NodeData, Notation } from '../eer';
+import { createImagePdf } from '../lib/pdf';
+import { StaticDiagram } from './DiagramShapes';
+
+type ExportFormat = 'svg' | 'png' | 'pdf';
+
+interface ExportDialogProps {
+  nodes: NodeData[];
+  links: LinkData[];
+  notation: Notation;
+  onClose: () => void;
+}
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Dibuja el SVG en un canvas del tamaño final (ancho y alto en píxeles del diagrama × escala)
+const rasterize = (svg: string, width: number, height: number, scale: number, background?: string) =>
+  new Promise<HTMLCanvasElement>((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const ctx = canvas.getContext('2d')!;
+      if (background) {
+        ctx.fillStyle = background;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+      }
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      resolve(canvas);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('No se pudo dibujar el diagrama.'));
+    };
+    img.src = url;
+  });
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) => canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('No se pudo generar la imagen.'))), type, quality));
+
+/**
+ * Exportación del diagrama completo (independiente del zoom y el desplazamiento
+ * del canvas) a SVG, PNG o PDF, recortado al contenido con el margen elegido.
+ */
+export default function ExportDialog({ nodes, links, notation, onClose }: ExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>('svg');
+  const [scale, setScale] = useState(2);
+  const [transparent, setTransparent] = useState(false);
+  const [margin, setMargin] = useState(40);
+  const [error, setError] = useState<string | null>(null);
+  const previewRef = useRef<HTMLDivElement>(null);
+
+  // El JPEG del PDF no admite transparencia
+  const background = transparent && format !== 'pdf' ? undefined : '#ffffff';
+
+  const handleDownload = async () => {
+    const svgElement = previewRef.current?.querySelector('svg');
+    if (!svgElement) return;
+    setError(null);
+    const svg = new XMLSerializer().serializeToString(svgElement);
+    const width = Number(svgElement.getAttribute('width'));
+    const height = Number(svgElement.getAttribute('height'));
+    try {
+      if (format === 'svg') {
+        downloadBlob(new Blob([`<?xml version="1.0" encoding="UTF-8"?>\n${svg}\n`], { type: 'image/svg+xml;charset=utf-8' }), 'eer-diagram.svg');
+      } else if (format === 'png') {
+        const canvas = await rasterize(svg, width, height, scale);
+        downloadBlob(await canvasToBlob(canvas, 'image/png'), 'eer-diagram.png');
+      } else {
+        const canvas = await rasterize(svg, width, height, scale, '#ffffff');
+        const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', 0.92)).arrayBuffer());
+        // 1 px de pantalla (96 ppp) = 0,75 pt: la página mide lo mismo que el diagrama a escala 1
+        const pdf = createImagePdf(jpeg, canvas.width, canvas.height, width * 0.75, height * 0.75);
+        downloadBlob(new Blob([pdf.buffer as ArrayBuffer], { type: 'application/pdf' }), 'eer-diagram.pdf');
+      }
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="w-full max-w-4xl rounded-xl bg-white p-6 shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="flex items-center justify-between border-b border-slate-100 pb-4 flex-shrink-0">
+          <h2 className="text-lg font-bold text-slate-800">Exportar diagrama</h2>
+          <button onClick={onClose} className="rounded-full p-1 hover:bg-slate-100"><X className="h-5 w-5 text-slate-500" /></button>
+        </div>
+        <div className="flex flex-wrap items-center gap-4 py-3 text-sm text-slate-600 flex-shrink-0">
+          <label className="flex items-center gap-2">
+            Formato
+            <select value={format} onChange={e => setFormat(e.target.value as ExportFormat)} className="rounded-md border border-slate-200 bg-white px-2 py-1 text-sm">
+              <option value="svg">SVG</option>
+              <option value="png">PNG</option>
+              <option value="pdf">PDF</option>
+            </select>
+          </label>
+          {format !== 'svg' && (
+            <label className="flex items-center gap-2">
+              Resolución
+              <select value={scale} onChange={e => setScale(Number(e.target.value))} className="rounded-md border border-slate-200 bg-white px-2 py-1 text-sm">
+                {[1, 2, 3, 4].map(s => <option key={s} value={s}>{s}× ({s * 96} ppp)</option>)}
+              </select>
+            </label>
+          )}
+          <label className="flex items-center gap-2">
+            Margen
+            <input type="number" min={0} max={400} value={margin} onChange={e => setMargin(Math.max(0, Number(e.target.value) || 0))} className="w-20 rounded-md border border-slate-200 px-2 py-1 text-sm" />
+            px
+          </label>
+          <label className={`flex items-center gap-2 ${format === 'pdf' ? 'opacity-40' : ''}`}>
+            <input type="checkbox" checked={transparent && format !== 'pdf'} disabled={format === 'pdf'} onChange={e => setTransparent(e.target.checked)} />
+            Fondo transparente
+          </label>
+          <button onClick={handleDownload} className="ml-auto flex items-center gap-1 rounded-md bg-indigo-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-indigo-700">
+            <Download className="h-4 w-4" /> Descargar .{format}
+          </button>
+        </div>
+        {error && <p className="pb-2 text-sm text-red-600">{error}</p>}
+        <div
+          ref={previewRef}
+          className="flex-1 overflow-auto rounded border border-slate-200 p-3 [&>svg]:mx-auto [&>svg]:h-auto [&>svg]:max-w-full"
+          style={{ backgroundImage: 'repeating-conic-gradient(#f1f5f9 0% 25%, #ffffff 0% 50%)', backgroundSize: '16px 16px' }}
+        >
+          <StaticDiagram nodes={nodes} links={links} notation={notation} margin={margin} background={background} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import { useMemo, useState } from 'react';
+import { Download, X } from 'lucide-react';
+import {
+  DEFAULT_GRADE_WEIGHTS,
+  formatGradeHTML,
+  formatGradeJSON,
+  GRADE_CATEGORIES,
+  gradeModel,
+  parseSynonyms,
+  type GradeCategoryId,
+  type GradeStatus,
+  type LinkData,
+  type NodeData,
+} from '../eer';
+
+interface GradingDialogProps {
+  referenceName: string;
+  reference: { nodes: NodeData[]; links: LinkData[] };
+  submissionName: string;
+  submission: { nodes: NodeData[]; links: LinkData[] };
+  onClose: () => void;
+}
+
+const STATUS_CLASSES: Record<GradeStatus, string> = {
+  correct: 'bg-green-100 text-green-700',
+  partial: 'bg-amber-100 text-amber-700',
+  missing: 'bg-red-100 text-red-700',
+  extra: 'bg-slate-100 text-slate-600',
+};
+
+const STATUS_LABELS: Record<GradeStatus, string> = {
+  correct: 'Bien',
+  partial: 'Parcial',
+  missing: 'Mal',
+  extra: 'Sobra',
+};
+
+/**
+ * Corrección del diagrama actual frente a una solución de referencia, con
+ * pesos y sinónimos ajustables y el informe para el estudiante en HTML o JSON.
+ */
+export default function GradingDialog({ referenceName, reference, submissionName, submission, onClose }: GradingDialogProps) {
+  const [weights, setWeights] = useState<Record<GradeCategoryId, number>>(DEFAULT_GRADE_WEIGHTS);
+  const [synonyms, setSynonyms] = useState('');
+  const report = useMemo(
+    () => gradeModel(reference, submission, { weights, synonyms: parseSynonyms(synonyms) }),
+    [reference, submission, weights, synonyms],
+  );
+  const student = submissionName.replace(/\.eer$/i, '');
+
+  const handleDownload = (format: 'html' | 'json') => {
+    const content = format === 'html' ? formatGradeHTML(report, student) : formatGradeJSON(report, student);
+    const blob = new Blob([content], { type: format === 'html' ? 'text/html' : 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${student}-correccion.${format}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="w-full max-w-4xl rounded-xl bg-white p-6 shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="flex items-center justify-between border-b border-slate-100 pb-4 flex-shrink-0">
+          <h2 className="text-lg font-bold text-slate-800">Corrección frente a <span className="font-mono">{referenceName}</span></h2>
+          <div className="flex items-center gap-2">
+            <button onClick={() => handleDownload('json')} className="rounded-md px-3 py-1.5 text-sm font-medium text-slate-600 hover:bg-slate-100 border border-slate-200">JSON</button>
+            <button onClick={() => handleDownload('html')} className="flex items-center gap-1 rounded-md bg-indigo-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-indigo-700">
+              <Download className="h-4 w-4" /> Informe HTML
+            </button>
+            <button onClick={onClose} className="rounded-full p-1 hover:bg-slate-100"><X className="h-5 w-5 text-slate-500" /></button>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto p-2 text-sm text-slate-700 space-y-4">
+          <div className="flex flex-wrap items-start gap-6">
+            <div className="text-3xl font-bold text-indigo-600">{report.score} <span className="text-base font-medium text-slate-500">/ {report.maxScore}</span></div>
+            <div className="flex flex-wrap gap-3">
+              {(Object.keys(GRADE_CATEGORIES) as GradeCategoryId[]).map(id => (
+                <label key={id} className="flex flex-col text-xs text-slate-500">
+                  {GRADE_CATEGORIES[id]}
+                  <input
+                    type="number"
+                    min={0}
+                    value={weights[id]}
+                    onChange={e => setWeights(w => ({ ...w, [id]: Math.max(0, Number(e.target.value) || 0) }))}
+                    className="w-20 rounded-md border border-slate-200 px-2 py-1 text-sm text-slate-700"
+                  />
+                </label>
+              ))}
+            </div>
+            <label className="flex flex-1 flex-col text-xs text-slate-500">
+              Sinónimos (uno por línea: CLIENTE, COMPRADOR)
+              <textarea value={synonyms} onChange={e => setSynonyms(e.target.value)} rows={2} className="rounded-md border border-slate-200 px-2 py-1 font-mono text-xs text-slate-700" />
+            </label>
+          </div>
+
+          {report.renamed.length > 0 && (
+            <p className="text-xs text-slate-500">
+              Nombres tomados como equivalentes: {report.renamed.map(r => `${r.submission} → ${r.reference}`).join(', ')}.
+            </p>
+          )}
+
+          {report.categories.filter(c => c.items.length > 0).map(c => (
+            <div key={c.id} className="rounded-lg border border-slate-200">
+              <div className="flex items-center justify-between border-b border-slate-200 bg-slate-50 px-3 py-1.5">
+                <span className="font-semibold text-slate-800">{c.label}</span>
+                <span className="text-xs text-slate-500">{c.possible > 0 ? `${c.earned} / ${c.possible}` : '—'} · peso {c.weight}</span>
+              </div>
+              <ul className="px-3 py-2 space-y-1 text-xs">
+                {c.items.map((item, i) => (
+                  <li key={i} className="flex gap-2">
+                    <span className={`flex-shrink-0 rounded px-1.5 font-medium ${STATUS_CLASSES[item.status]}`}>{STATUS_LABELS[item.status]}</span>
+                    <span>{item.message}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
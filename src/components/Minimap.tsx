@@ -0,0 +1,112 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import { useRef } from 'react';
+import { getDiagramBounds, NODE_HALF_SIZE, type LinkData, type NodeData } from '../eer';
+
+interface MinimapProps {
+  nodes: NodeData[];
+  links: LinkData[];
+  scale: number;
+  offset: { x: number; y: number };
+  viewport: { width: number; height: number };
+  /** Nuevo desplazamiento del canvas para que su centro quede en el punto indicado */
+  onNavigate: (offset: { x: number; y: number }) => void;
+}
+
+const WIDTH = 200;
+const HEIGHT = 140;
+const PADDING = 40;
+
+const fillOf = (node: NodeData) => {
+  if (node.type.endsWith('attribute')) return '#cbd5e1';
+  if (node.type.endsWith('relationship')) return '#a5b4fc';
+  if (node.type === 'specialization' || node.type === 'union') return '#94a3b8';
+  return '#475569';
+};
+
+/**
+ * MINIMAPA: vista reducida de todo el diagrama con el rectángulo visible en el
+ * canvas. Al pulsar o arrastrar sobre él se centra el canvas en ese punto.
+ */
+export default function Minimap({ nodes, links, scale, offset, viewport, onNavigate }: MinimapProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  // Durante el arrastre: distancia del puntero al centro de la zona visible (0 si se pulsó fuera de ella)
+  const grab = useRef<{ x: number; y: number } | null>(null);
+
+  // Zona visible del canvas en coordenadas del diagrama
+  const view = {
+    x: -offset.x / scale,
+    y: -offset.y / scale,
+    width: viewport.width / scale,
+    height: viewport.height / scale,
+  };
+  // El minimapa abarca el diagrama y la zona visible, para que ésta nunca quede fuera
+  const bounds = getDiagramBounds(nodes) ?? { minX: view.x, minY: view.y, maxX: view.x, maxY: view.y };
+  const minX = Math.min(bounds.minX, view.x) - PADDING;
+  const minY = Math.min(bounds.minY, view.y) - PADDING;
+  const width = Math.max(bounds.maxX, view.x + view.width) + PADDING - minX;
+  const height = Math.max(bounds.maxY, view.y + view.height) + PADDING - minY;
+  const unit = Math.max(width / WIDTH, height / HEIGHT); // Unidades del diagrama por píxel del minimapa
+
+  const byId = new Map(nodes.map(n => [n.id, n]));
+
+  const toDiagram = (e: React.PointerEvent) => {
+    const CTM = svgRef.current?.getScreenCTM();
+    return CTM ? new DOMPoint(e.clientX, e.clientY).matrixTransform(CTM.inverse()) : null;
+  };
+
+  const navigate = (point: { x: number; y: number }) => {
+    const center = { x: point.x - (grab.current?.x ?? 0), y: point.y - (grab.current?.y ?? 0) };
+    onNavigate({ x: viewport.width / 2 - center.x * scale, y: viewport.height / 2 - center.y * scale });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    const point = toDiagram(e);
+    if (!point) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const inside = point.x >= view.x && point.x <= view.x + view.width && point.y >= view.y && point.y <= view.y + view.height;
+    // Dentro de la zona visible se arrastra sin saltos; fuera, se centra en el punto pulsado
+    grab.current = inside ? { x: point.x - (view.x + view.width / 2), y: point.y - (view.y + view.height / 2) } : { x: 0, y: 0 };
+    navigate(point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!grab.current) return;
+    const point = toDiagram(e);
+    if (point) navigate(point);
+  };
+
+  return (
+    <div className="absolute bottom-4 left-4 z-20 rounded-lg border border-slate-200 bg-white/90 p-1 shadow-lg" onMouseDown={e => e.stopPropagation()}>
+      <svg
+        ref={svgRef}
+        width={WIDTH}
+        height={HEIGHT}
+        viewBox={`${minX} ${minY} ${width} ${height}`}
+        className="block cursor-pointer touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => { grab.current = null; }}
+      >
+        {links.map((link, i) => {
+          const source = byId.get(link.source);
+          const target = byId.get(link.target);
+          if (!source || !target) return null;
+          return <line key={i} x1={source.x} y1={source.y} x2={target.x} y2={target.y} stroke="#cbd5e1" strokeWidth={unit} />;
+        })}
+        {nodes.map(node => {
+          const { w, h } = NODE_HALF_SIZE[node.type];
+          return <rect key={node.id} x={node.x - w} y={node.y - h} width={2 * w} height={2 * h} rx={node.type.endsWith('attribute') ? h : 0} fill={fillOf(node)} />;
+        })}
+        <rect x={view.x} y={view.y} width={view.width} height={view.height} fill="#6366f1" fillOpacity={0.1} stroke="#6366f1" strokeWidth={1.5 * unit} />
+      </svg>
+    </div>
+  );
+}
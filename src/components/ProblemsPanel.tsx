@@ -0,0 +1,98 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import { useState } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle2, ChevronDown, ChevronUp, ListChecks } from 'lucide-react';
+import { VALIDATION_RULES, type Diagnostic, type ValidationRule } from '../eer';
+
+interface ProblemsPanelProps {
+  diagnostics: Diagnostic[];
+  onSelect: (diagnostic: Diagnostic) => void;
+  disabledRules: ReadonlySet<ValidationRule>;
+  onToggleRule: (rule: ValidationRule) => void;
+}
+
+/**
+ * Lista de problemas del parser y de la validación semántica. Al hacer clic
+ * se salta a la línea en el editor; las reglas semánticas se activan aparte.
+ */
+export default function ProblemsPanel({ diagnostics, onSelect, disabledRules, onToggleRule }: ProblemsPanelProps) {
+  const [collapsed, setCollapsed] = useState(false);
+  const [showRules, setShowRules] = useState(false);
+  const errors = diagnostics.filter(d => d.severity === 'error').length;
+  const warnings = diagnostics.length - errors;
+
+  return (
+    <div className="relative flex-shrink-0 border-t border-slate-200 bg-white">
+      <div className="flex items-center">
+        <button
+          onClick={() => setCollapsed(c => !c)}
+          className="flex flex-1 items-center justify-between px-4 py-2 text-xs font-bold uppercase tracking-wider text-slate-500 hover:bg-slate-50"
+        >
+          <span className="flex items-center gap-3">
+            Problemas
+            <span className="flex items-center gap-1 font-medium normal-case text-red-600"><AlertCircle className="h-3 w-3" /> {errors}</span>
+            <span className="flex items-center gap-1 font-medium normal-case text-amber-600"><AlertTriangle className="h-3 w-3" /> {warnings}</span>
+          </span>
+          {collapsed ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+        </button>
+        <button
+          onClick={() => setShowRules(s => !s)}
+          title="Reglas de validación"
+          className={`px-3 py-2 hover:bg-slate-50 ${showRules ? 'text-indigo-600' : 'text-slate-400'}`}
+        >
+          <ListChecks className="h-4 w-4" />
+        </button>
+      </div>
+      {showRules && (
+        <div className="absolute bottom-full right-2 mb-1 w-80 rounded-md border border-slate-200 bg-white p-3 shadow-lg z-30">
+          <h3 className="mb-2 text-xs font-bold uppercase tracking-wider text-slate-500">Reglas de validación</h3>
+          <ul className="space-y-1.5 text-xs">
+            {(Object.keys(VALIDATION_RULES) as ValidationRule[]).map(rule => (
+              <li key={rule}>
+                <label className="flex items-start gap-2" title={VALIDATION_RULES[rule].description}>
+                  <input type="checkbox" checked={!disabledRules.has(rule)} onChange={() => onToggleRule(rule)} className="mt-0.5" />
+                  <span className="text-slate-700">{VALIDATION_RULES[rule].label}</span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {!collapsed && (
+        <ul className="max-h-40 overflow-y-auto pb-1 text-xs">
+          {diagnostics.length === 0 && (
+            <li className="flex items-center gap-2 px-4 py-1.5 text-slate-400">
+              <CheckCircle2 className="h-3 w-3 text-emerald-500" /> Sin problemas
+            </li>
+          )}
+          {diagnostics.map((d, i) => (
+            <li key={i}>
+              <button
+                onClick={() => onSelect(d)}
+                className="flex w-full items-start gap-2 px-4 py-1.5 text-left hover:bg-slate-50"
+              >
+                {d.severity === 'error'
+                  ? <AlertCircle className="mt-0.5 h-3 w-3 flex-shrink-0 text-red-500" />
+                  : <AlertTriangle className="mt-0.5 h-3 w-3 flex-shrink-0 text-amber-500" />}
+                <span className="flex-1 text-slate-700">
+                  {d.message}
+                  {d.rule && d.rule in VALIDATION_RULES && (
+                    <span className="ml-1 text-slate-400">· {VALIDATION_RULES[d.rule as ValidationRule].label}</span>
+                  )}
+                </span>
+                <span className="flex-shrink-0 font-mono text-slate-400">{d.file && `${d.file}:`}{d.line}:{d.column}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
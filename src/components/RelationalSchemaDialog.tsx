@@ -0,0 +1,134 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import { useMemo, useState } from 'react';
+import { Download, KeyRound, Link2, X } from 'lucide-react';
+import {
+  formatRelationalSchema,
+  mapToRelational,
+  SPECIALIZATION_STRATEGIES,
+  type LinkData,
+  type NodeData,
+  type SpecializationStrategy,
+} from '../eer';
+
+interface RelationalSchemaDialogProps {
+  nodes: NodeData[];
+  links: LinkData[];
+  onClose: () => void;
+}
+
+/**
+ * Vista del esquema relacional obtenido del diagrama, con las decisiones
+ * tomadas en cada paso y la elección de estrategia para cada especialización.
+ */
+export default function RelationalSchemaDialog({ nodes, links, onClose }: RelationalSchemaDialogProps) {
+  const [strategies, setStrategies] = useState<Record<string, SpecializationStrategy>>({});
+  const schema = useMemo(() => mapToRelational(nodes, links, { specialization: strategies }), [nodes, links, strategies]);
+  const specializations = nodes.filter(n => n.type === 'specialization');
+
+  const superclassOf = (spec: NodeData) => {
+    const link = links.find(l => l.target === spec.id && l.lineIndex === spec.lineIndex);
+    return nodes.find(n => n.id === link?.source)?.label ?? '?';
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([formatRelationalSchema(schema)], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'esquema-relacional.txt';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="w-full max-w-4xl rounded-xl bg-white p-6 shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="flex items-center justify-between border-b border-slate-100 pb-4 flex-shrink-0">
+          <h2 className="text-lg font-bold text-slate-800">Esquema relacional</h2>
+          <div className="flex items-center gap-2">
+            <button onClick={() => navigator.clipboard.writeText(formatRelationalSchema(schema))} className="rounded-md px-3 py-1.5 text-sm font-medium text-slate-600 hover:bg-slate-100 border border-slate-200">Copiar</button>
+            <button onClick={handleDownload} className="flex items-center gap-1 rounded-md bg-indigo-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-indigo-700">
+              <Download className="h-4 w-4" /> Descargar
+            </button>
+            <button onClick={onClose} className="rounded-full p-1 hover:bg-slate-100"><X className="h-5 w-5 text-slate-500" /></button>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto p-2 text-sm text-slate-700 space-y-4">
+          {specializations.length > 0 && (
+            <div className="bg-indigo-50 rounded-lg p-4 border border-indigo-100 space-y-2">
+              <h3 className="font-semibold text-indigo-900">Especializaciones (paso 8)</h3>
+              {specializations.map(spec => (
+                <label key={spec.id} className="flex items-center justify-between gap-4">
+                  <span><code className="bg-white px-1 rounded text-xs">{spec.label}</code> de {superclassOf(spec)}</span>
+                  <select
+                    value={strategies[spec.id] ?? '8A'}
+                    onChange={e => setStrategies(s => ({ ...s, [spec.id]: e.target.value as SpecializationStrategy }))}
+                    className="rounded-md border border-slate-200 bg-white px-2 py-1 text-xs"
+                  >
+                    {(Object.keys(SPECIALIZATION_STRATEGIES) as SpecializationStrategy[]).map(key => (
+                      <option key={key} value={key}>{key} · {SPECIALIZATION_STRATEGIES[key]}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {schema.tables.map(table => (
+              <div key={table.name} className="rounded-lg border border-slate-200">
+                <div className="border-b border-slate-200 bg-slate-50 px-3 py-1.5 font-mono font-bold text-slate-800">{table.name}</div>
+                <ul className="px-3 py-2 font-mono text-xs space-y-1">
+                  {table.columns.map(col => {
+                    const isPk = table.primaryKey.includes(col.name);
+                    const fk = table.foreignKeys.find(f => f.columns.includes(col.name));
+                    return (
+                      <li key={col.name} className="flex items-center gap-2">
+                        {isPk ? <KeyRound className="h-3 w-3 text-amber-500" /> : <span className="w-3" />}
+                        <span className={isPk ? 'underline font-semibold' : ''}>{col.name}</span>
+                        {!col.nullable && !isPk && <span className="text-[10px] text-slate-400">NOT NULL</span>}
+                        {fk && (
+                          <span className="flex items-center gap-1 text-indigo-600">
+                            <Link2 className="h-3 w-3" /> {fk.table}({fk.referencedColumns[fk.columns.indexOf(col.name)]})
+                          </span>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+                {table.unique.length > 0 && (
+                  <div className="border-t border-slate-100 px-3 py-1 text-[10px] text-slate-500">UNIQUE: {table.unique.map(u => `(${u.join(', ')})`).join(' ')}</div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {schema.notes.length > 0 && (
+            <div className="bg-slate-50 rounded-lg p-4 border border-slate-200">
+              <h3 className="font-semibold text-slate-800 mb-2">Decisiones de transformación</h3>
+              <ul className="space-y-1 text-xs">
+                {schema.notes.map((n, i) => (
+                  <li key={i} className="flex gap-2">
+                    <span className="flex-shrink-0 rounded bg-white px-1.5 font-mono text-indigo-700 border border-indigo-100">{n.step}</span>
+                    <span>{n.message}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
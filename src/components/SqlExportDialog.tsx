@@ -0,0 +1,66 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import { useMemo, useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { generateSQL, mapToRelational, SQL_DIALECTS, type LinkData, type NodeData, type SqlDialect } from '../eer';
+
+interface SqlExportDialogProps {
+  nodes: NodeData[];
+  links: LinkData[];
+  onClose: () => void;
+}
+
+/**
+ * Exportación del esquema relacional como script SQL (CREATE TABLE).
+ */
+export default function SqlExportDialog({ nodes, links, onClose }: SqlExportDialogProps) {
+  const [dialect, setDialect] = useState<SqlDialect>('postgresql');
+  const sql = useMemo(() => generateSQL(mapToRelational(nodes, links), dialect), [nodes, links, dialect]);
+
+  const handleDownload = () => {
+    const blob = new Blob([sql], { type: 'application/sql' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `schema-${dialect}.sql`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="w-full max-w-3xl rounded-xl bg-white p-6 shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="flex items-center justify-between border-b border-slate-100 pb-4 flex-shrink-0">
+          <h2 className="text-lg font-bold text-slate-800">Exportar SQL</h2>
+          <button onClick={onClose} className="rounded-full p-1 hover:bg-slate-100"><X className="h-5 w-5 text-slate-500" /></button>
+        </div>
+        <div className="flex items-center justify-between gap-4 py-3 flex-shrink-0">
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            Dialecto
+            <select value={dialect} onChange={e => setDialect(e.target.value as SqlDialect)} className="rounded-md border border-slate-200 bg-white px-2 py-1 text-sm">
+              {(Object.keys(SQL_DIALECTS) as SqlDialect[]).map(key => (
+                <option key={key} value={key}>{SQL_DIALECTS[key]}</option>
+              ))}
+            </select>
+          </label>
+          <div className="flex items-center gap-2">
+            <button onClick={() => navigator.clipboard.writeText(sql)} className="rounded-md px-3 py-1.5 text-sm font-medium text-slate-600 hover:bg-slate-100 border border-slate-200">Copiar</button>
+            <button onClick={handleDownload} className="flex items-center gap-1 rounded-md bg-indigo-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-indigo-700">
+              <Download className="h-4 w-4" /> Descargar .sql
+            </button>
+          </div>
+        </div>
+        <pre className="flex-1 overflow-auto text-xs font-mono bg-slate-50 p-3 rounded border border-slate-200">{sql}</pre>
+      </div>
+    </div>
+  );
+}
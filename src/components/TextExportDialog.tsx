@@ -0,0 +1,76 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import { useMemo, useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { DIAGRAM_TEXT_FORMATS, generateDiagramText, type DiagramTextFormat, type LinkData, type NodeData } from '../eer';
+
+interface TextExportDialogProps {
+  nodes: NodeData[];
+  links: LinkData[];
+  onClose: () => void;
+}
+
+/**
+ * Exportación del diagrama como Mermaid, PlantUML o DBML, con la lista de
+ * construcciones que el formato elegido no puede representar tal cual.
+ */
+export default function TextExportDialog({ nodes, links, onClose }: TextExportDialogProps) {
+  const [format, setFormat] = useState<DiagramTextFormat>('mermaid');
+  const { code, warnings } = useMemo(() => generateDiagramText(nodes, links, format), [nodes, links, format]);
+  const { extension } = DIAGRAM_TEXT_FORMATS[format];
+
+  const handleDownload = () => {
+    const blob = new Blob([code], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `diagram.${extension}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="w-full max-w-3xl rounded-xl bg-white p-6 shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="flex items-center justify-between border-b border-slate-100 pb-4 flex-shrink-0">
+          <h2 className="text-lg font-bold text-slate-800">Exportar Mermaid / PlantUML / DBML</h2>
+          <button onClick={onClose} className="rounded-full p-1 hover:bg-slate-100"><X className="h-5 w-5 text-slate-500" /></button>
+        </div>
+        <div className="flex items-center justify-between gap-4 py-3 flex-shrink-0">
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            Formato
+            <select value={format} onChange={e => setFormat(e.target.value as DiagramTextFormat)} className="rounded-md border border-slate-200 bg-white px-2 py-1 text-sm">
+              {(Object.keys(DIAGRAM_TEXT_FORMATS) as DiagramTextFormat[]).map(key => (
+                <option key={key} value={key}>{DIAGRAM_TEXT_FORMATS[key].label}</option>
+              ))}
+            </select>
+          </label>
+          <div className="flex items-center gap-2">
+            <button onClick={() => navigator.clipboard.writeText(code)} className="rounded-md px-3 py-1.5 text-sm font-medium text-slate-600 hover:bg-slate-100 border border-slate-200">Copiar</button>
+            <button onClick={handleDownload} className="flex items-center gap-1 rounded-md bg-indigo-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-indigo-700">
+              <Download className="h-4 w-4" /> Descargar .{extension}
+            </button>
+          </div>
+        </div>
+        {warnings.length > 0 && (
+          <div className="mb-3 max-h-32 overflow-y-auto rounded border border-amber-200 bg-amber-50 p-3 text-xs text-amber-800 flex-shrink-0">
+            <p className="font-semibold">No se puede representar tal cual:</p>
+            <ul className="mt-1 list-disc pl-4 space-y-0.5">
+              {warnings.map((w, i) => <li key={i}>{w}</li>)}
+            </ul>
+          </div>
+        )}
+        <pre className="flex-1 overflow-auto text-xs font-mono bg-slate-50 p-3 rounded border border-slate-200">{code}</pre>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import { Plus } from 'lucide-react';
+
+interface ViewTabsProps {
+  views: string[];
+  active: string | null; // null: el modelo completo
+  onSelect: (view: string | null) => void;
+  onAdd: () => void;
+}
+
+/**
+ * Pestañas de las vistas del diagrama (view NOMBRE). La primera muestra el
+ * modelo completo con las coordenadas de cada definición.
+ */
+export default function ViewTabs({ views, active, onSelect, onAdd }: ViewTabsProps) {
+  const tab = (name: string | null, label: string) => (
+    <button
+      key={name ?? ''}
+      onClick={() => onSelect(name)}
+      className={`rounded px-2.5 py-1 text-xs font-medium ${active === name ? 'bg-indigo-100 text-indigo-700' : 'text-slate-600 hover:bg-slate-100'}`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="absolute left-1/2 top-4 z-20 flex max-w-[50%] -translate-x-1/2 items-center gap-1 overflow-x-auto rounded-lg border border-slate-200 bg-white p-1 shadow-lg" onMouseDown={e => e.stopPropagation()}>
+      {tab(null, 'Modelo completo')}
+      {views.map(name => tab(name, name))}
+      <button onClick={onAdd} title="Nueva vista con los elementos seleccionados (o con todos los visibles)" className="rounded p-1 text-slate-600 hover:bg-slate-100">
+        <Plus className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
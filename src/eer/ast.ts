@@ -0,0 +1,128 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import type { Diagnostic, StructuralConstraint } from './types';
+
+/**
+ * AST del DSL .eer
+ *
+ * El lenguaje es orientado a líneas: cada línea del fuente es un `SourceLine`
+ * que conserva sus tokens con el espacio en blanco previo, de modo que
+ * imprimir el documento devuelve exactamente el texto original.
+ */
+
+// Posición dentro del fuente. Líneas y columnas 1-based; endColumn exclusiva.
+export interface Span {
+  line: number;
+  column: number;
+  endColumn: number;
+}
+
+export type TokenKind = 'word' | 'arrow' | 'string' | 'flag' | 'coords' | 'constraint' | 'comment' | 'invalid';
+
+export interface Token {
+  kind: TokenKind;
+  text: string;
+  leading: string; // Espacio en blanco antes del token
+  span: Span;
+}
+
+export interface Identifier {
+  value: string;
+  span: Span;
+}
+
+export interface Coords {
+  x: number;
+  y: number;
+}
+
+export type AttributeKind = 'simple' | 'key' | 'partial_key' | 'derived' | 'multivalued';
+
+interface StatementBase {
+  keyword: Identifier; // Comando tal y como está escrito (ent, key_att, link...)
+  span: Span;
+}
+
+export interface EntityStatement extends StatementBase {
+  kind: 'entity';
+  weak: boolean;
+  name: Identifier;
+  coords?: Coords;
+}
+
+export interface RelationshipStatement extends StatementBase {
+  kind: 'relationship';
+  identifying: boolean;
+  name: Identifier;
+  coords?: Coords;
+}
+
+export interface AttributeStatement extends StatementBase {
+  kind: 'attribute';
+  attributeKind: AttributeKind;
+  name: Identifier;
+  owner?: Identifier; // att NOMBRE -> PROPIETARIO (o PROPIETARIO.ATRIBUTO si es un subatributo)
+  coords?: Coords;
+}
+
+// spec d -> SUPERCLASE / spec d on ATRIBUTO -> SUPERCLASE / union u
+export interface HierarchyStatement extends StatementBase {
+  kind: 'spec' | 'union';
+  name?: Identifier;
+  definingAttribute?: Identifier; // Atributo de la superclase cuyo valor decide la subclase
+  superclass?: Identifier;
+  flags: string[]; // [total] (por defecto) o [partial]
+  coords?: Coords;
+}
+
+export interface LinkStatement extends StatementBase {
+  kind: 'link';
+  source: Identifier;
+  target: Identifier;
+  label?: string; // Cardinalidad o rol entre comillas
+  role?: Identifier; // role:NOMBRE, papel de la entidad en la relación
+  constraint?: StructuralConstraint; // (min,max)
+  flags: string[]; // [total], [double]...
+}
+
+// include "archivo.eer" (o import): las definiciones de otro archivo forman parte del diagrama
+export interface IncludeStatement extends StatementBase {
+  kind: 'include';
+  path: Identifier; // Ruta relativa al archivo que la escribe (sin comillas; el span es el de la cadena)
+}
+
+// view NOMBRE: abre la sección de una vista; las líneas 'show' que la siguen son suyas
+export interface ViewStatement extends StatementBase {
+  kind: 'view';
+  name: Identifier;
+}
+
+// show ELEMENTO (x, y): el elemento aparece en la vista, con su posición en ella
+export interface ShowStatement extends StatementBase {
+  kind: 'show';
+  target: Identifier;
+  coords?: Coords;
+}
+
+export type Statement = EntityStatement | RelationshipStatement | AttributeStatement | HierarchyStatement | LinkStatement | IncludeStatement | ViewStatement | ShowStatement;
+
+export interface SourceLine {
+  index: number; // 0-based, igual que NodeData.lineIndex
+  tokens: Token[];
+  trailing: string; // Espacio en blanco al final de la línea
+  eol: string; // '\n', '\r\n' o '' en la última línea
+  statement: Statement | null; // null en líneas vacías, comentarios o líneas inválidas
+  comment?: string; // Texto del comentario // (sin las barras)
+  diagnostics: Diagnostic[]; // Problemas locales a la línea
+}
+
+export interface EERDocument {
+  lines: SourceLine[];
+}
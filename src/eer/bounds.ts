@@ -0,0 +1,45 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import type { NodeData, NodeType } from './types';
+
+// Semiancho y semialto de cada forma tal como se dibuja (centrada en x, y)
+export const NODE_HALF_SIZE: Record<NodeType, { w: number; h: number }> = {
+  entity: { w: 50, h: 25 },
+  weak_entity: { w: 50, h: 25 },
+  relationship: { w: 60, h: 40 },
+  identifying_relationship: { w: 60, h: 40 },
+  attribute: { w: 45, h: 25 },
+  key_attribute: { w: 45, h: 25 },
+  partial_key_attribute: { w: 45, h: 25 },
+  derived_attribute: { w: 45, h: 25 },
+  multivalued_attribute: { w: 45, h: 25 },
+  specialization: { w: 18, h: 18 },
+  union: { w: 18, h: 18 },
+};
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * Rectángulo que ocupa el diagrama (null si no hay nodos).
+ */
+export const getDiagramBounds = (nodes: NodeData[]): Bounds | null => {
+  if (nodes.length === 0) return null;
+  return {
+    minX: Math.min(...nodes.map(n => n.x - NODE_HALF_SIZE[n.type].w)),
+    minY: Math.min(...nodes.map(n => n.y - NODE_HALF_SIZE[n.type].h)),
+    maxX: Math.max(...nodes.map(n => n.x + NODE_HALF_SIZE[n.type].w)),
+    maxY: Math.max(...nodes.map(n => n.y + NODE_HALF_SIZE[n.type].h)),
+  };
+};
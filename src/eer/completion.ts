@@ -0,0 +1,194 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import type { EERDocument, SourceLine, Token } from './ast';
+import { tokenizeLine } from './lexer';
+import { parseDocument } from './parser';
+
+/**
+ * AYUDAS DEL EDITOR: clasificación de tokens para el resaltado de sintaxis y
+ * sugerencias de autocompletado (comandos y elementos ya definidos).
+ */
+export type HighlightKind = 'keyword' | 'name' | 'reference' | 'arrow' | 'string' | 'flag' | 'role' | 'coords' | 'constraint' | 'comment' | 'invalid' | 'text';
+
+export interface HighlightToken {
+  kind: HighlightKind;
+  text: string;
+  leading: string;
+  column: number; // 1-based, como Token.span
+}
+
+export interface CompletionItem {
+  label: string;
+  detail: string;
+}
+
+export interface CompletionResult {
+  context: 'command' | 'reference';
+  from: number; // Desplazamientos en el texto completo: [from, to) es lo que se sustituye
+  to: number;
+  items: CompletionItem[];
+}
+
+// Comandos que se ofrecen al autocompletar (multivalued_attribute sólo se admite por compatibilidad)
+export const DSL_COMMANDS: CompletionItem[] = [
+  { label: 'ent', detail: 'Entidad' },
+  { label: 'weak_ent', detail: 'Entidad débil' },
+  { label: 'rel', detail: 'Relación' },
+  { label: 'ident_rel', detail: 'Relación identificativa' },
+  { label: 'att', detail: 'Atributo' },
+  { label: 'key_att', detail: 'Atributo clave' },
+  { label: 'partial_key_att', detail: 'Clave parcial' },
+  { label: 'derived_att', detail: 'Atributo derivado' },
+  { label: 'multivalued_att', detail: 'Atributo multivaluado' },
+  { label: 'spec', detail: 'Especialización' },
+  { label: 'union', detail: 'Categoría (unión)' },
+  { label: 'link', detail: 'Conexión' },
+  { label: 'include', detail: 'Incluir otro archivo' },
+  { label: 'view', detail: 'Vista' },
+  { label: 'show', detail: 'Elemento de la vista' },
+];
+
+const MAX_ITEMS = 50;
+
+/**
+ * Tokens de una línea ya analizada con su papel en la sentencia: el comando,
+ * el nombre que define y los elementos a los que hace referencia.
+ */
+export const highlightLine = (line: SourceLine): HighlightToken[] => {
+  const roles = new Map<number, HighlightKind>();
+  const statement = line.statement;
+  if (statement) {
+    roles.set(statement.keyword.span.column, 'keyword');
+    switch (statement.kind) {
+      case 'entity':
+      case 'relationship':
+        roles.set(statement.name.span.column, 'name');
+        break;
+      case 'attribute':
+        roles.set(statement.name.span.column, 'name');
+        if (statement.owner) roles.set(statement.owner.span.column, 'reference');
+        break;
+      case 'spec':
+      case 'union':
+        if (statement.name) roles.set(statement.name.span.column, 'name');
+        if (statement.superclass) roles.set(statement.superclass.span.column, 'reference');
+        if (statement.definingAttribute) {
+          // 'on' es la palabra que precede al atributo
+          const { column } = statement.definingAttribute.span;
+          const index = line.tokens.findIndex(t => t.span.column === column);
+          if (index > 0) roles.set(line.tokens[index - 1].span.column, 'keyword');
+          roles.set(column, 'reference');
+        }
+        break;
+      case 'link':
+        roles.set(statement.source.span.column, 'reference');
+        roles.set(statement.target.span.column, 'reference');
+        if (statement.role) roles.set(statement.role.span.column, 'role');
+        break;
+      case 'view':
+        roles.set(statement.name.span.column, 'name');
+        break;
+      case 'show':
+        roles.set(statement.target.span.column, 'reference');
+        break;
+    }
+  }
+  // Sin sentencia, la primera palabra es un comando desconocido (o una línea incompleta)
+  const head = statement ? undefined : line.tokens.find(t => t.kind === 'word');
+
+  return line.tokens.map(token => {
+    const { column } = token.span;
+    let kind: HighlightKind;
+    if (token.kind === 'word') kind = roles.get(column) ?? (token === head ? 'invalid' : 'text');
+    else if (token.kind === 'coords' && statement?.kind === 'link') kind = 'constraint'; // (1,1) en una conexión
+    else kind = token.kind;
+    return { kind, text: token.text, leading: token.leading, column };
+  });
+};
+
+// Elementos que pueden aparecer como referencia, con la descripción que se muestra
+const referenceTargets = (doc: EERDocument, skipLine: number, context: 'owner' | 'superclass' | 'link') => {
+  const items: CompletionItem[] = [];
+  doc.lines.forEach(line => {
+    const statement = line.statement;
+    if (!statement || line.index === skipLine) return;
+    switch (statement.kind) {
+      case 'entity':
+        items.push({ label: statement.name.value, detail: statement.weak ? 'Entidad débil' : 'Entidad' });
+        break;
+      case 'relationship':
+        if (context !== 'superclass') items.push({ label: statement.name.value, detail: statement.identifying ? 'Relación identificativa' : 'Relación' });
+        break;
+      case 'spec':
+      case 'union':
+        if (context === 'link' && statement.name) items.push({ label: statement.name.value, detail: statement.kind === 'union' ? 'Unión' : 'Especialización' });
+        break;
+      case 'attribute':
+        // Los subatributos cuelgan de PROPIETARIO.ATRIBUTO
+        if (context === 'owner' && statement.owner) items.push({ label: `${statement.owner.value}.${statement.name.value}`, detail: 'Atributo' });
+        break;
+    }
+  });
+  return items;
+};
+
+const filterItems = (items: CompletionItem[], prefix: string) => {
+  const lower = prefix.toLowerCase();
+  const seen = new Set<string>();
+  const unique = items.filter(item => item.label !== prefix && !seen.has(item.label) && seen.add(item.label));
+  const starts = unique.filter(item => item.label.toLowerCase().startsWith(lower));
+  const contains = unique.filter(item => !item.label.toLowerCase().startsWith(lower) && item.label.toLowerCase().includes(lower));
+  return [...starts, ...contains].slice(0, MAX_ITEMS);
+};
+
+/**
+ * Sugerencias para la posición `offset` del código: comandos al principio de
+ * la línea y, tras '->' o en un 'link', los elementos definidos en el resto del documento.
+ */
+export const getCompletions = (code: string, offset: number): CompletionResult | null => {
+  const lineStart = code.lastIndexOf('\n', offset - 1) + 1;
+  const lineEnd = code.indexOf('\n', offset);
+  const text = code.slice(lineStart, lineEnd === -1 ? code.length : lineEnd).replace(/\r$/, '');
+  const column = offset - lineStart; // 0-based
+  const lineIndex = code.slice(0, lineStart).split('\n').length - 1;
+  const { tokens } = tokenizeLine(text, lineIndex + 1);
+
+  // Palabra bajo el cursor (si la hay) y tokens anteriores a ella
+  const start = (t: Token) => t.span.column - 1;
+  const end = (t: Token) => t.span.endColumn - 1;
+  const current = tokens.find(t => start(t) < column && column <= end(t)) ?? tokens.find(t => start(t) === column);
+  if (current && current.kind !== 'word') return null;
+  const from = current ? start(current) : column;
+  const to = current ? end(current) : column;
+  const prefix = text.slice(from, column);
+  const before = tokens.filter(t => end(t) <= from);
+  if (before.some(t => t.kind === 'comment')) return null;
+
+  const result = (context: CompletionResult['context'], items: CompletionItem[]): CompletionResult | null => {
+    const filtered = filterItems(items, prefix);
+    return filtered.length > 0 ? { context, from: lineStart + from, to: lineStart + to, items: filtered } : null;
+  };
+
+  if (before.length === 0) return result('command', DSL_COMMANDS);
+
+  const command = before[0].text.toLowerCase();
+  const last = before[before.length - 1];
+  const doc = parseDocument(code);
+  if (last.kind === 'arrow') {
+    if (command === 'spec') return result('reference', referenceTargets(doc, lineIndex, 'superclass'));
+    if (command.endsWith('att') || command === 'multivalued_attribute') return result('reference', referenceTargets(doc, lineIndex, 'owner'));
+    return null;
+  }
+  if (command === 'link' && before.length <= 2 && before.every(t => t.kind === 'word')) {
+    return result('reference', referenceTargets(doc, lineIndex, 'link'));
+  }
+  if (command === 'show' && before.length === 1) return result('reference', referenceTargets(doc, lineIndex, 'link'));
+  return null;
+};
@@ -0,0 +1,72 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import type { LinkData, NodeData } from './types';
+import { mapToRelational, type RelationalColumn, type RelationalTable } from './relational';
+import type { TextExportResult } from './erText';
+
+/**
+ * DBML (dbdiagram.io): tablas y referencias del esquema relacional que se
+ * obtiene con el paso a tablas. Los tipos siguen el mismo criterio que la
+ * exportación SQL y los pasos que transforman construcciones sin equivalente
+ * (multivaluados, jerarquías y categorías) se listan como avisos.
+ */
+const REPORTED_STEPS = /^(6|8|9)/;
+
+export const generateDBML = (nodes: NodeData[], links: LinkData[]): TextExportResult => {
+  const schema = mapToRelational(nodes, links);
+  const ident = (name: string) => (/^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : `"${name.replace(/"/g, '\\"')}"`);
+  const columnList = (names: string[]) => (names.length === 1 ? ident(names[0]) : `(${names.map(ident).join(', ')})`);
+  const byName = new Map(schema.tables.map(t => [t.name, t]));
+
+  // Tipo de una columna: las claves ajenas heredan el de la columna referenciada
+  const typeOf = (table: RelationalTable, column: RelationalColumn, seen = new Set<string>()): string => {
+    if (column.kind === 'surrogate') return 'integer';
+    if (column.kind === 'flag') return 'boolean';
+    const fk = table.foreignKeys.find(f => f.columns.includes(column.name));
+    const key = `${table.name}.${column.name}`;
+    if (fk && !seen.has(key)) {
+      seen.add(key);
+      const refTable = byName.get(fk.table);
+      const refColumn = refTable?.columns.find(c => c.name === fk.referencedColumns[fk.columns.indexOf(column.name)]);
+      if (refTable && refColumn) return typeOf(refTable, refColumn, seen);
+    }
+    return 'varchar';
+  };
+
+  const out: string[] = ['// Esquema generado por EER Studio', ''];
+  schema.tables.forEach(table => {
+    const singlePk = table.primaryKey.length === 1 ? table.primaryKey[0] : undefined;
+    out.push(`Table ${ident(table.name)} {`);
+    table.columns.forEach(column => {
+      const settings: string[] = [];
+      if (column.name === singlePk) settings.push('pk');
+      if (column.name === singlePk && column.kind === 'surrogate' && !table.foreignKeys.some(f => f.columns.includes(column.name))) settings.push('increment');
+      if (!column.nullable && column.name !== singlePk) settings.push('not null');
+      if (table.unique.some(u => u.length === 1 && u[0] === column.name)) settings.push('unique');
+      out.push(`  ${ident(column.name)} ${typeOf(table, column)}${settings.length ? ` [${settings.join(', ')}]` : ''}`);
+    });
+    const indexes = [
+      ...(table.primaryKey.length > 1 ? [`    ${columnList(table.primaryKey)} [pk]`] : []),
+      ...table.unique.filter(u => u.length > 1).map(u => `    ${columnList(u)} [unique]`),
+    ];
+    if (indexes.length) out.push('', '  indexes {', ...indexes, '  }');
+    out.push('}', '');
+  });
+
+  // Referencias: '-' si la clave ajena es también única (1:1), '>' en el resto (N:1)
+  schema.tables.forEach(table => table.foreignKeys.forEach(fk => {
+    const oneToOne = table.unique.some(u => u.length === fk.columns.length && u.every(c => fk.columns.includes(c)))
+      || (table.primaryKey.length === fk.columns.length && table.primaryKey.every(c => fk.columns.includes(c)));
+    out.push(`Ref: ${ident(table.name)}.${columnList(fk.columns)} ${oneToOne ? '-' : '>'} ${ident(fk.table)}.${columnList(fk.referencedColumns)}${fk.onDelete === 'cascade' ? ' [delete: cascade]' : ''}`);
+  }));
+
+  const warnings = schema.notes.filter(n => REPORTED_STEPS.test(n.step)).map(n => `[Paso ${n.step}] ${n.message}`);
+  return { code: `${out.join('\n').trimEnd()}\n`, warnings };
+};
@@ -0,0 +1,245 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import { parseDocument } from './parser';
+import { printDocument } from './printer';
+import { layoutDocument } from './layout';
+import { generateEER, type SqlTable } from './sqlImport';
+import type { TextImportResult } from './mermaidImport';
+
+/**
+ * IMPORTACIÓN DE DBML: lee las tablas (columnas, pk, unique, not null e
+ * índices) y las referencias (Ref y ref: en línea) y las convierte en código
+ * .eer ya distribuido con las mismas reglas que la importación de SQL. Las
+ * referencias '<>' (muchos a muchos) pasan a una tabla intermedia.
+ */
+interface Endpoint {
+  table: string;
+  columns: string[];
+}
+
+interface DbmlRef {
+  from: Endpoint;
+  op: '>' | '<' | '-' | '<>';
+  to: Endpoint;
+}
+
+const unquote = (name: string) => name.trim().replace(/^["'`]|["'`]$/g, '');
+
+// El último segmento de esquema.tabla (las comillas pueden contener puntos)
+const tableName = (name: string) => {
+  const parts = name.trim().match(/"[^"]*"|[^.]+/g) ?? [name];
+  return unquote(parts[parts.length - 1]);
+};
+
+// Quita comentarios y notas multilínea sin tocar el contenido de las cadenas
+const stripComments = (text: string) => {
+  let out = '';
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      out += ch;
+      if (ch === quote) quote = null;
+    } else if (text.startsWith("'''", i)) {
+      const end = text.indexOf("'''", i + 3);
+      out += "''";
+      i = end === -1 ? text.length : end + 2;
+    } else if (text.startsWith('//', i)) {
+      const end = text.indexOf('\n', i);
+      i = (end === -1 ? text.length : end) - 1;
+    } else if (text.startsWith('/*', i)) {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 1;
+    } else {
+      if (ch === '"' || ch === "'" || ch === '`') quote = ch;
+      out += ch;
+    }
+  }
+  return out;
+};
+
+// Elementos separados por comas fuera de comillas y paréntesis
+const splitSettings = (text: string) => {
+  const items: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+  for (const ch of text) {
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'" || ch === '`') {
+      quote = ch;
+    } else if (ch === '(') {
+      depth++;
+    } else if (ch === ')') {
+      depth--;
+    } else if (ch === ',' && depth === 0) {
+      items.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+  if (current.trim()) items.push(current.trim());
+  return items;
+};
+
+// tabla.columna, esquema.tabla.columna o tabla.(a, b)
+const parseEndpoint = (text: string): Endpoint | undefined => {
+  const composite = text.trim().match(/^(.+)\.\(([^)]*)\)$/);
+  if (composite) return { table: tableName(composite[1]), columns: composite[2].split(',').map(unquote) };
+  const parts = text.trim().match(/"[^"]*"|[^.\s]+/g);
+  if (!parts || parts.length < 2) return undefined;
+  return { table: tableName(parts[parts.length - 2]), columns: [unquote(parts[parts.length - 1])] };
+};
+
+const REF_REGEX = /^(.+?)\s*(<>|>|<|-)\s*([^[\]]+?)\s*(?:\[.*\])?$/;
+
+const parseRef = (text: string): DbmlRef | undefined => {
+  const match = text.match(REF_REGEX);
+  const from = match && parseEndpoint(match[1]);
+  const to = match && parseEndpoint(match[3]);
+  return match && from && to ? { from, op: match[2] as DbmlRef['op'], to } : undefined;
+};
+
+export const importDBML = (text: string): TextImportResult => {
+  const warnings: string[] = [];
+  const tables: SqlTable[] = [];
+  const aliases = new Map<string, string>();
+  const refs: DbmlRef[] = [];
+
+  let table: SqlTable | null = null;
+  let block: 'indexes' | 'ref' | 'skip' | null = null;
+  let skipDepth = 0;
+  for (const [index, raw] of stripComments(text).split('\n').entries()) {
+    const line = raw.trim();
+    if (!line) continue;
+    const where = `Línea ${index + 1}`;
+
+    // Bloques que no interesan (Enum, Project, Note, TableGroup...): se cuentan las llaves
+    if (block === 'skip') {
+      skipDepth += (line.match(/\{/g) ?? []).length - (line.match(/\}/g) ?? []).length;
+      if (skipDepth <= 0) block = null;
+      continue;
+    }
+    if (block === 'indexes' || block === 'ref') {
+      if (line === '}') {
+        block = null;
+      } else if (block === 'ref') {
+        const ref = parseRef(line);
+        if (ref) refs.push(ref);
+        else warnings.push(`${where}: no se entiende la referencia '${line}'.`);
+      } else if (table) {
+        const match = line.match(/^(\([^)]*\)|\S+)\s*(?:\[(.*)\])?$/);
+        const columns = match ? match[1].replace(/^\(|\)$/g, '').split(',').map(unquote) : [];
+        const settings = match?.[2] ? splitSettings(match[2]).map(s => s.toLowerCase()) : [];
+        if (settings.includes('pk')) table.primaryKey = columns;
+        else if (settings.includes('unique')) table.unique.push(columns);
+      }
+      continue;
+    }
+
+    if (table) {
+      if (line === '}') {
+        tables.push(table);
+        table = null;
+      } else if (/^indexes\s*\{$/i.test(line)) {
+        block = 'indexes';
+      } else if (/^note\b/i.test(line)) {
+        if (line.endsWith('{')) {
+          block = 'skip';
+          skipDepth = 1;
+        }
+      } else {
+        const match = line.match(/^("[^"]+"|\S+)\s+("[^"]+"|[^\s[]+(?:\([^)]*\))?)\s*(?:\[(.*)\])?$/);
+        if (!match) {
+          warnings.push(`${where}: no se entiende la columna '${line}'.`);
+          continue;
+        }
+        const name = unquote(match[1]);
+        const settings = match[3] ? splitSettings(match[3]) : [];
+        const lower = settings.map(s => s.toLowerCase());
+        const pk = lower.includes('pk') || lower.includes('primary key');
+        table.columns.push({ name, notNull: pk || lower.includes('not null') });
+        if (pk) table.primaryKey.push(name);
+        if (lower.includes('unique')) table.unique.push([name]);
+        const owner = table.name;
+        settings.filter(s => /^ref\s*:/i.test(s)).forEach(s => {
+          const ref = parseRef(`${owner}.${name} ${s.replace(/^ref\s*:/i, '').trim()}`);
+          if (ref) refs.push(ref);
+          else warnings.push(`${where}: no se entiende la referencia '${s}'.`);
+        });
+      }
+      continue;
+    }
+
+    const tableMatch = line.match(/^Table\s+("[^"]+"|[^\s{[]+)(?:\s+as\s+("[^"]+"|\S+))?\s*(?:\[.*\])?\s*\{$/i);
+    if (tableMatch) {
+      table = { name: tableName(tableMatch[1]), columns: [], primaryKey: [], foreignKeys: [], unique: [] };
+      if (tableMatch[2]) aliases.set(unquote(tableMatch[2]), table.name);
+      continue;
+    }
+    const refMatch = line.match(/^Ref(?:\s+[^:{]+)?\s*(:|\{)\s*(.*)$/i);
+    if (refMatch) {
+      // Ref { ... } en una o varias líneas
+      const body = refMatch[1] === '{' ? refMatch[2].replace(/\}\s*$/, '').trim() : refMatch[2];
+      if (refMatch[1] === '{' && !refMatch[2].endsWith('}')) block = 'ref';
+      if (!body) continue;
+      const ref = parseRef(body);
+      if (ref) refs.push(ref);
+      else warnings.push(`${where}: no se entiende la referencia '${refMatch[2]}'.`);
+      continue;
+    }
+    if (/^\w+\b[^{]*\{/.test(line)) {
+      skipDepth = (line.match(/\{/g) ?? []).length - (line.match(/\}/g) ?? []).length;
+      if (skipDepth > 0) block = 'skip';
+      continue;
+    }
+    warnings.push(`${where}: se ignora '${line}'.`);
+  }
+  if (table) warnings.push(`Falta la llave de cierre de la tabla '${table.name}'.`);
+
+  // Referencias: la tabla del lado 'muchos' recibe la clave ajena
+  const findTable = (name: string) => {
+    const real = aliases.get(name) ?? name;
+    return tables.find(t => t.name === real) ?? tables.find(t => t.name.toLowerCase() === real.toLowerCase());
+  };
+  refs.forEach(ref => {
+    const [child, parent] = ref.op === '<' ? [ref.to, ref.from] : [ref.from, ref.to];
+    const childTable = findTable(child.table);
+    const parentTable = findTable(parent.table);
+    if (!childTable || !parentTable) {
+      warnings.push(`La referencia ${child.table}.${child.columns.join(', ')} -> ${parent.table} apunta a una tabla que no está en el esquema.`);
+      return;
+    }
+    if (ref.op === '<>') {
+      // Muchos a muchos: tabla intermedia con las dos claves
+      const column = (t: SqlTable, c: string) => `${t.name}_${c}`;
+      const columns = [...child.columns.map(c => column(childTable, c)), ...parent.columns.map(c => column(parentTable, c))];
+      tables.push({
+        name: `${childTable.name}_${parentTable.name}`,
+        columns: columns.map(name => ({ name, notNull: true })),
+        primaryKey: columns,
+        foreignKeys: [
+          { columns: child.columns.map(c => column(childTable, c)), table: childTable.name, referencedColumns: child.columns },
+          { columns: parent.columns.map(c => column(parentTable, c)), table: parentTable.name, referencedColumns: parent.columns },
+        ],
+        unique: [],
+      });
+      return;
+    }
+    childTable.foreignKeys.push({ columns: child.columns, table: parentTable.name, referencedColumns: parent.columns });
+    const isKey = childTable.primaryKey.length === child.columns.length && child.columns.every(c => childTable.primaryKey.includes(c));
+    if (ref.op === '-' && !isKey) childTable.unique.push(child.columns);
+  });
+
+  const code = generateEER(tables, warnings, 'un esquema DBML');
+  return { code: printDocument(layoutDocument(parseDocument(code))), warnings };
+};
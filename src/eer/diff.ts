@@ -0,0 +1,298 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import type { LinkData, NodeData, NodeType } from './types';
+import { formatConstraint } from './printer';
+import { isManyCardinality } from './relational';
+
+/**
+ * COMPARACIÓN de dos versiones de un modelo: qué elementos se han añadido,
+ * eliminado, renombrado o cambiado, sin fijarse en el texto ni (salvo que se
+ * pida) en las coordenadas. Los elementos se emparejan por nombre y, los que
+ * no coinciden, por sus atributos y conexiones (un renombrado conserva ambos).
+ */
+export type DiffStatus = 'added' | 'removed' | 'renamed' | 'changed' | 'moved';
+
+export interface ModelChange {
+  status: DiffStatus;
+  message: string;
+  nodeId?: string; // Nodo del diagrama combinado al que se refiere
+}
+
+export interface ModelDiff {
+  changes: ModelChange[];
+  // Diagrama combinado: la versión nueva más lo eliminado de la antigua, con el estado de cada elemento
+  nodes: NodeData[];
+  links: LinkData[];
+  nodeStatus: Map<string, DiffStatus>;
+  linkStatus: Map<LinkData, DiffStatus>;
+}
+
+export interface DiffOptions {
+  includeMoves?: boolean; // Informar también de los nodos que sólo han cambiado de posición
+}
+
+type Model = { nodes: NodeData[]; links: LinkData[] };
+
+// Colores de la comparación de versiones en el diagrama combinado
+export const DIFF_COLORS: Record<DiffStatus, string> = {
+  added: '#16a34a',
+  removed: '#dc2626',
+  renamed: '#d97706',
+  changed: '#d97706',
+  moved: '#2563eb',
+};
+
+// Halo de cada nodo y conexión del diagrama combinado según su estado
+export const diffColors = (diff: ModelDiff) => ({
+  nodeColors: new Map([...diff.nodeStatus].map(([id, status]) => [id, DIFF_COLORS[status]])),
+  linkColors: new Map([...diff.linkStatus].map(([link, status]) => [link, DIFF_COLORS[status]])),
+});
+
+// Nombre de cada tipo de nodo en los mensajes y si es femenino (para la concordancia)
+const TYPE_NAMES: Record<NodeType, [string, boolean]> = {
+  entity: ['entidad', true],
+  weak_entity: ['entidad débil', true],
+  relationship: ['relación', true],
+  identifying_relationship: ['relación identificativa', true],
+  attribute: ['atributo', false],
+  key_attribute: ['atributo clave', false],
+  partial_key_attribute: ['clave parcial', true],
+  multivalued_attribute: ['atributo multivaluado', false],
+  derived_attribute: ['atributo derivado', false],
+  specialization: ['especialización', true],
+  union: ['unión', true],
+};
+
+const MIN_SIMILARITY = 0.5; // Parecido mínimo (atributos y conexiones comunes) para tomar un par como renombrado
+
+const isAttribute = (n: NodeData) => n.type.endsWith('attribute');
+const isHierarchy = (n: NodeData) => n.type === 'specialization' || n.type === 'union';
+const categoryOf = (n: NodeData) => isAttribute(n) ? 'attribute' : isHierarchy(n) ? 'hierarchy' : n.type.endsWith('relationship') ? 'relationship' : 'entity';
+const capitalize = (text: string) => text[0].toUpperCase() + text.slice(1);
+const ending = (type: NodeType, masculine: string, feminine: string) => TYPE_NAMES[type][1] ? feminine : masculine;
+
+// Conexiones que sólo cuelgan un atributo de su propietario (las representa el propio atributo)
+const isOwnership = (link: LinkData, byId: Map<string, NodeData>) => {
+  const target = byId.get(link.target);
+  return !!target && isAttribute(target) && target.owner === link.source;
+};
+
+// Índices de un modelo que se usan al emparejar y al redactar los mensajes
+const indexModel = (model: Model) => {
+  const byId = new Map(model.nodes.map(n => [n.id, n]));
+  const structural = model.links.filter(l => !isOwnership(l, byId));
+  const neighbours = new Map<string, string[]>();
+  structural.forEach(l => {
+    neighbours.set(l.source, [...(neighbours.get(l.source) ?? []), l.target]);
+    neighbours.set(l.target, [...(neighbours.get(l.target) ?? []), l.source]);
+  });
+  // Superclases de una jerarquía: las conexiones que llegan a ella
+  const parents = (id: string) => structural.filter(l => l.target === id).map(l => l.source);
+  const children = (ownerId: string | undefined) => model.nodes.filter(n => isAttribute(n) && n.owner === ownerId);
+  const nameOf = (node: NodeData): string => {
+    const owner = node.owner ? byId.get(node.owner) : undefined;
+    if (isAttribute(node)) return owner ? `${nameOf(owner)}.${node.label}` : node.label;
+    if (isHierarchy(node)) {
+      const supers = parents(node.id).map(id => byId.get(id)?.label ?? id);
+      return supers.length > 0 ? `${node.label} de ${supers.join(', ')}` : node.label;
+    }
+    return node.label;
+  };
+  return { byId, structural, neighbours, parents, children, nameOf };
+};
+
+export const diffModels = (before: Model, after: Model, options: DiffOptions = {}): ModelDiff => {
+  const old = indexModel(before);
+  const now = indexModel(after);
+  const matched = new Map<string, string>(); // ID antiguo -> ID nuevo
+  const taken = new Set<string>(); // IDs nuevos ya emparejados
+  const pair = (a: NodeData, b: NodeData) => {
+    matched.set(a.id, b.id);
+    taken.add(b.id);
+  };
+  const unmatchedBefore = (category: string) => before.nodes.filter(n => categoryOf(n) === category && !matched.has(n.id));
+  const unmatchedAfter = (category: string) => after.nodes.filter(n => categoryOf(n) === category && !taken.has(n.id));
+
+  // 1. Entidades y relaciones con el mismo nombre
+  (['entity', 'relationship'] as const).forEach(category => {
+    const byLabel = new Map(unmatchedAfter(category).map(n => [n.label, n]));
+    unmatchedBefore(category).forEach(n => {
+      const same = byLabel.get(n.label);
+      if (same && !taken.has(same.id)) pair(n, same);
+    });
+  });
+
+  // 2. Renombrados: los pares más parecidos por atributos y por elementos conectados (ya emparejados)
+  const features = (node: NodeData, side: 'before' | 'after') => {
+    const index = side === 'before' ? old : now;
+    const attributes = index.children(node.id).map(n => `att:${n.label}`);
+    const linked = (index.neighbours.get(node.id) ?? []).map(id => `link:${side === 'before' ? matched.get(id) ?? `?${id}` : id}`);
+    return new Set([...attributes, ...linked]);
+  };
+  (['entity', 'relationship'] as const).forEach(category => {
+    const candidates: { a: NodeData; b: NodeData; score: number }[] = [];
+    unmatchedBefore(category).forEach(a => {
+      const fa = features(a, 'before');
+      unmatchedAfter(category).forEach(b => {
+        const fb = features(b, 'after');
+        const common = [...fa].filter(f => fb.has(f)).length;
+        const score = common / (fa.size + fb.size - common || 1);
+        if (common > 0 && score >= MIN_SIMILARITY) candidates.push({ a, b, score });
+      });
+    });
+    candidates.sort((x, y) => y.score - x.score).forEach(({ a, b }) => {
+      if (!matched.has(a.id) && !taken.has(b.id)) pair(a, b);
+    });
+  });
+
+  // 3. Jerarquías: por sus superclases (ya emparejadas)
+  const hierarchyKey = (node: NodeData, side: 'before' | 'after') => {
+    const ids = side === 'before' ? old.parents(node.id).map(id => matched.get(id) ?? `?${id}`) : now.parents(node.id);
+    return `${node.type}|${[...ids].sort().join(',')}`;
+  };
+  const hierarchies = new Map<string, NodeData[]>();
+  unmatchedAfter('hierarchy').forEach(n => {
+    const key = hierarchyKey(n, 'after');
+    hierarchies.set(key, [...(hierarchies.get(key) ?? []), n]);
+  });
+  unmatchedBefore('hierarchy').forEach(n => {
+    const same = hierarchies.get(hierarchyKey(n, 'before'))?.find(b => !taken.has(b.id));
+    if (same) pair(n, same);
+  });
+
+  // 4. Atributos, de arriba abajo: en cada par de propietarios, por nombre y después el único que queda de cada tipo
+  const owners: [string | undefined, string | undefined][] = [[undefined, undefined], ...[...matched].map(([a, b]): [string, string] => [a, b])];
+  for (let i = 0; i < owners.length; i++) {
+    const [ownerA, ownerB] = owners[i];
+    const left = old.children(ownerA).filter(n => !matched.has(n.id));
+    const right = now.children(ownerB).filter(n => !taken.has(n.id));
+    const attach = (a: NodeData, b: NodeData) => {
+      pair(a, b);
+      owners.push([a.id, b.id]);
+    };
+    left.forEach(a => {
+      const same = right.find(b => b.label === a.label && !taken.has(b.id));
+      if (same) attach(a, same);
+    });
+    const restA = left.filter(n => !matched.has(n.id));
+    const restB = right.filter(n => !taken.has(n.id));
+    if (ownerA !== undefined && restA.length === 1 && restB.length === 1) {
+      attach(restA[0], restB[0]);
+    } else if (ownerA !== undefined) {
+      restA.forEach(a => {
+        const sameType = restB.filter(b => b.type === a.type && !taken.has(b.id));
+        if (sameType.length === 1 && restA.filter(n => n.type === a.type).length === 1) attach(a, sameType[0]);
+      });
+    }
+  }
+
+  // Estado de cada nodo y mensajes
+  const changes: ModelChange[] = [];
+  const nodeStatus = new Map<string, DiffStatus>();
+  const removedId = (id: string) => `${id}~antes`;
+  const mergedId = (id: string) => matched.get(id) ?? removedId(id);
+  const describe = (node: NodeData, name: string) => `${TYPE_NAMES[node.type][0]} '${name}'`;
+  const beforeById = new Map([...matched].map(([a, b]) => [b, old.byId.get(a)]));
+  // Los atributos de un elemento añadido o eliminado no se listan aparte (sí se colorean)
+  const implied = (node: NodeData, side: 'before' | 'after') => !!node.owner && (side === 'before' ? !matched.has(node.owner) : !beforeById.has(node.owner));
+
+  after.nodes.forEach(node => {
+    const previous = beforeById.get(node.id);
+    if (!previous) {
+      nodeStatus.set(node.id, 'added');
+      if (!implied(node, 'after')) changes.push({ status: 'added', message: `${capitalize(describe(node, now.nameOf(node)))} ${ending(node.type, 'añadido', 'añadida')}.`, nodeId: node.id });
+      return;
+    }
+    const messages: ModelChange[] = [];
+    if (previous.label !== node.label && !isHierarchy(node)) {
+      messages.push({ status: 'renamed', message: `${capitalize(describe(previous, old.nameOf(previous)))} ${ending(node.type, 'renombrado', 'renombrada')} a '${node.label}'.`, nodeId: node.id });
+    }
+    if (previous.type !== node.type || (isHierarchy(node) && previous.label !== node.label)) {
+      const from = isHierarchy(node) ? `${TYPE_NAMES[previous.type][0]} ${previous.label}` : TYPE_NAMES[previous.type][0];
+      const to = isHierarchy(node) ? `${TYPE_NAMES[node.type][0]} ${node.label}` : TYPE_NAMES[node.type][0];
+      messages.push({ status: 'changed', message: `'${now.nameOf(node)}': ${from} → ${to}.`, nodeId: node.id });
+    }
+    if (previous.definingAttribute !== node.definingAttribute) {
+      messages.push({ status: 'changed', message: `'${now.nameOf(node)}': atributo definidor ${previous.definingAttribute ?? '(ninguno)'} → ${node.definingAttribute ?? '(ninguno)'}.`, nodeId: node.id });
+    }
+    if (options.includeMoves && (previous.x !== node.x || previous.y !== node.y)) {
+      messages.push({ status: 'moved', message: `'${now.nameOf(node)}': posición (${previous.x}, ${previous.y}) → (${node.x}, ${node.y}).`, nodeId: node.id });
+    }
+    if (messages.length > 0) nodeStatus.set(node.id, messages[0].status);
+    changes.push(...messages);
+  });
+  const removedNodes = before.nodes.filter(n => !matched.has(n.id)).map(n => ({ ...n, id: removedId(n.id), owner: n.owner && mergedId(n.owner) }));
+  removedNodes.forEach(node => nodeStatus.set(node.id, 'removed'));
+  before.nodes.filter(n => !matched.has(n.id)).forEach(node => {
+    if (!implied(node, 'before')) {
+      changes.push({ status: 'removed', message: `${capitalize(describe(node, old.nameOf(node)))} ${ending(node.type, 'eliminado', 'eliminada')}.`, nodeId: removedId(node.id) });
+    }
+  });
+
+  // Conexiones: se emparejan por sus extremos (sin importar el orden) y su rol
+  const linkStatus = new Map<LinkData, DiffStatus>();
+  const linkKey = (source: string, target: string, link: LinkData) => `${[source, target].sort().join('|')}|${link.role ?? ''}`;
+  const pending = new Map<string, LinkData[]>();
+  after.links.forEach(link => {
+    const key = linkKey(link.source, link.target, link);
+    pending.set(key, [...(pending.get(key) ?? []), link]);
+  });
+  const linkName = (link: LinkData, index: typeof old) => {
+    const label = (id: string) => {
+      const node = index.byId.get(id);
+      return node ? index.nameOf(node) : id;
+    };
+    return `${label(link.source)} – ${label(link.target)}${link.role ? ` (${link.role})` : ''}`;
+  };
+  const removedLinks: LinkData[] = [];
+  before.links.forEach(link => {
+    const source = mergedId(link.source);
+    const target = mergedId(link.target);
+    const current = pending.get(linkKey(source, target, link))?.shift();
+    if (!current) {
+      const merged = { ...link, source, target };
+      removedLinks.push(merged);
+      linkStatus.set(merged, 'removed');
+      if (!isOwnership(link, old.byId) && matched.has(link.source) && matched.has(link.target)) {
+        changes.push({ status: 'removed', message: `Conexión ${linkName(link, old)} eliminada.` });
+      }
+      return;
+    }
+    const name = linkName(current, now);
+    const word = [current.source, current.target].some(id => now.byId.get(id)?.type.endsWith('relationship')) ? 'Cardinalidad' : 'Etiqueta';
+    const messages: string[] = [];
+    // Una cardinalidad sólo cambia si pasa de 1 a muchos o al revés ("N" y "M" son lo mismo)
+    const labelChanged = word === 'Cardinalidad' && link.label && current.label
+      ? isManyCardinality(link.label) !== isManyCardinality(current.label)
+      : (link.label ?? '') !== (current.label ?? '');
+    if (labelChanged) messages.push(`${word} de ${name}: ${link.label || '(ninguna)'} → ${current.label || '(ninguna)'}.`);
+    if (link.style !== current.style) messages.push(`Participación de ${name}: ${link.style === 'double' ? 'total' : 'parcial'} → ${current.style === 'double' ? 'total' : 'parcial'}.`);
+    const constraint = (l: LinkData) => l.constraint ? formatConstraint(l.constraint) : '(ninguna)';
+    if (constraint(link) !== constraint(current)) messages.push(`Restricción de ${name}: ${constraint(link)} → ${constraint(current)}.`);
+    if (messages.length > 0) {
+      linkStatus.set(current, 'changed');
+      messages.forEach(message => changes.push({ status: 'changed', message }));
+    }
+  });
+  pending.forEach(links => links.forEach(link => {
+    linkStatus.set(link, 'added');
+    if (!isOwnership(link, now.byId) && beforeById.has(link.source) && beforeById.has(link.target)) {
+      changes.push({ status: 'added', message: `Conexión ${linkName(link, now)} añadida.` });
+    }
+  }));
+
+  return {
+    changes,
+    nodes: [...after.nodes, ...removedNodes],
+    links: [...after.links, ...removedLinks],
+    nodeStatus,
+    linkStatus,
+  };
+};
@@ -0,0 +1,217 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import type { AttributeStatement, Coords, EERDocument, EntityStatement, HierarchyStatement, RelationshipStatement, SourceLine, Statement } from './ast';
+import { buildModel } from './model';
+import { parseDocument, parseLine } from './parser';
+import { formatCoords, printLine, printLineText } from './printer';
+import type { ViewData } from './types';
+
+/**
+ * EDICIONES sobre el AST. Devuelven un documento nuevo; sólo se vuelve a
+ * analizar la línea modificada, el resto conserva su texto intacto.
+ */
+export const replaceLine = (doc: EERDocument, lineIndex: number, text: string): EERDocument => {
+  const current = doc.lines[lineIndex];
+  if (!current) return doc;
+  const lines = doc.lines.slice();
+  lines[lineIndex] = parseLine(text, lineIndex, current.eol);
+  return { lines };
+};
+
+/**
+ * Escribe las coordenadas de un nodo en su línea: sustituye las existentes
+ * o las añade al final del comando (antes de un comentario, si lo hay).
+ */
+export const setCoords = (doc: EERDocument, lineIndex: number, coords: Coords): EERDocument => {
+  const line = doc.lines[lineIndex];
+  if (!line || !line.statement || line.statement.kind === 'link' || line.statement.kind === 'include' || line.statement.kind === 'view') return doc;
+
+  const coordsText = formatCoords(coords);
+  const hasCoords = line.tokens.some(t => t.kind === 'coords');
+  let text = '';
+  let inserted = false;
+
+  line.tokens.forEach(t => {
+    if (t.kind === 'coords') {
+      if (!inserted) text += t.leading + coordsText;
+      inserted = true;
+    } else if (t.kind === 'comment' && !hasCoords) {
+      text += ` ${coordsText}${t.leading || ' '}${t.text}`;
+      inserted = true;
+    } else {
+      text += t.leading + t.text;
+    }
+  });
+
+  if (!inserted) {
+    text += ` ${coordsText}`;
+  } else {
+    text += line.trailing;
+  }
+
+  return replaceLine(doc, lineIndex, text);
+};
+
+/**
+ * Añade una línea al final del documento.
+ */
+export const appendLine = (doc: EERDocument, text: string): EERDocument => {
+  const last = doc.lines[doc.lines.length - 1];
+  const lines = doc.lines.slice();
+  const lastIsEmpty = !!last && printLineText(last).trim() === '';
+  if (lastIsEmpty && lines.length === 1) return { lines: [parseLine(text, 0, '')] };
+  // Si el documento acaba en salto de línea, la línea nueva también
+  if (lastIsEmpty && last.eol === '') {
+    lines[last.index] = parseLine(text, last.index, '\n');
+    lines.push(parseLine('', lines.length, ''));
+  } else {
+    if (last) lines[last.index] = { ...last, eol: '\n' };
+    lines.push(parseLine(text, lines.length, ''));
+  }
+  return { lines };
+};
+
+/**
+ * Inserta líneas delante de la línea `index` (al final si no existe); las siguientes se vuelven a numerar.
+ */
+export const insertLines = (doc: EERDocument, index: number, texts: string[]): EERDocument => {
+  if (index >= doc.lines.length) return texts.reduce(appendLine, doc);
+  const eol = doc.lines[index - 1]?.eol || '\n';
+  const before = doc.lines.slice(0, index).map(printLine).join('');
+  const after = doc.lines.slice(index).map(printLine).join('');
+  return parseDocument(before + texts.map(text => text + eol).join('') + after);
+};
+
+/**
+ * Escribe posiciones en una vista: en la línea 'show' de cada nodo o, si la
+ * vista aún no lo colocaba, en líneas nuevas al final de su sección.
+ */
+export const setViewCoords = (doc: EERDocument, view: ViewData, positions: { id: string; reference: string; coords: Coords }[]): EERDocument => {
+  const lineOf = new Map(view.nodes.map(n => [n.id, n.lineIndex]));
+  const placed = positions.reduce((d, p) => {
+    const lineIndex = lineOf.get(p.id);
+    return lineIndex === undefined ? d : setCoords(d, lineIndex, p.coords);
+  }, doc);
+  const added = positions.filter(p => !lineOf.has(p.id)).map(p => `show ${p.reference} ${formatCoords(p.coords)}`);
+  if (added.length === 0) return placed;
+  const end = Math.max(view.lineIndex, ...view.nodes.map(n => n.lineIndex));
+  return insertLines(placed, end + 1, added);
+};
+
+/**
+ * Elimina líneas; las siguientes se vuelven a numerar.
+ */
+export const removeLines = (doc: EERDocument, lineIndexes: ReadonlySet<number>): EERDocument => {
+  const kept = doc.lines.filter(line => !lineIndexes.has(line.index));
+  if (kept.length === 0) return parseDocument('');
+  // La nueva última línea no lleva salto de línea si la original no lo llevaba
+  const eol = doc.lines[doc.lines.length - 1].eol;
+  return parseDocument(kept.map((line, i) => printLineText(line) + (i === kept.length - 1 ? eol : line.eol)).join(''));
+};
+
+// Sentencias que definen un elemento del diagrama (las que se pueden renombrar)
+const isElementStatement = (s: Statement | null | undefined): s is EntityStatement | RelationshipStatement | AttributeStatement | HierarchyStatement =>
+  !!s && (s.kind === 'entity' || s.kind === 'relationship' || s.kind === 'attribute' || s.kind === 'spec' || s.kind === 'union');
+
+// Reescribe una línea cambiando el texto de los tokens indicados (por columna)
+const rewriteTokens = (line: SourceLine, replacements: Map<number, string>) =>
+  line.tokens.map(t => t.leading + (replacements.get(t.span.column) ?? t.text)).join('') + line.trailing;
+
+/**
+ * Cambia el nombre del elemento definido en una línea y actualiza las
+ * referencias a él (conexiones, propietarios de atributos, superclases y
+ * rutas PROPIETARIO.ATRIBUTO).
+ */
+export const renameElement = (doc: EERDocument, lineIndex: number, name: string): EERDocument => {
+  const statement = doc.lines[lineIndex]?.statement;
+  if (!isElementStatement(statement) || !statement.name || statement.name.value === name) return doc;
+  const oldName = statement.name.value;
+
+  // Cómo se escribe una referencia al elemento: su nombre o, si es atributo, la ruta desde su propietario
+  let rename: (ref: string) => string | undefined;
+  if (statement.kind === 'attribute') {
+    const ownerPath = statement.owner?.value;
+    const sameLabel = doc.lines.filter(l => l.statement?.kind === 'attribute' && l.statement.name.value === oldName).length;
+    // Como en buildModel, un ID definido (entidad, relación, jerarquía...) gana al nombre del atributo
+    const ids = new Set(buildModel(doc).nodes.map(n => n.id));
+    rename = ref => {
+      if (ref === oldName && sameLabel === 1 && !ids.has(ref)) return name;
+      if (!ownerPath) return undefined;
+      const path = `${ownerPath}.${oldName}`;
+      if (ref === path) return `${ownerPath}.${name}`;
+      if (ref.startsWith(`${path}.`)) return `${ownerPath}.${name}${ref.slice(path.length)}`;
+      return undefined;
+    };
+  } else {
+    rename = ref => {
+      if (ref === oldName) return name;
+      if (ref.startsWith(`${oldName}.`)) return name + ref.slice(oldName.length);
+      return undefined;
+    };
+  }
+
+  let result = doc;
+  doc.lines.forEach(line => {
+    const s = line.statement;
+    if (!s) return;
+    const replacements = new Map<number, string>();
+    if (line.index === lineIndex && isElementStatement(s) && s.name) replacements.set(s.name.span.column, name);
+    const refs = s.kind === 'link' ? [s.source, s.target]
+      : s.kind === 'show' ? [s.target]
+      : s.kind === 'attribute' ? [s.owner]
+      : s.kind === 'spec' || s.kind === 'union' ? [s.superclass]
+      : [];
+    refs.forEach(ref => {
+      const renamed = ref && rename(ref.value);
+      if (ref && renamed !== undefined) replacements.set(ref.span.column, renamed);
+    });
+    // El atributo definidor de una especialización se escribe sin ruta: es un atributo de la superclase
+    const defining = s.kind === 'spec' ? s.definingAttribute : undefined;
+    if (defining && defining.value === oldName && s.kind === 'spec' && statement.kind === 'attribute' && statement.owner?.value === s.superclass?.value) {
+      replacements.set(defining.span.column, name);
+    }
+    if (replacements.size > 0) result = replaceLine(result, line.index, rewriteTokens(line, replacements));
+  });
+  return result;
+};
+
+/**
+ * Elimina nodos del modelo con todo lo que depende de ellos: sus conexiones,
+ * sus atributos (y subatributos) y las especializaciones de las que son
+ * superclase, junto con las conexiones de éstas.
+ */
+export const deleteNodes = (doc: EERDocument, ids: Iterable<string>): EERDocument => {
+  const { nodes, links, views } = buildModel(doc);
+  const removedIds = new Set(ids);
+  const removedLines = new Set<number>();
+  let changed = true;
+  while (changed) {
+    changed = false;
+    nodes.filter(n => removedIds.has(n.id)).forEach(n => removedLines.add(n.lineIndex));
+    links.forEach(l => {
+      if ((removedIds.has(l.source) || removedIds.has(l.target)) && !removedLines.has(l.lineIndex)) {
+        removedLines.add(l.lineIndex);
+        changed = true;
+      }
+    });
+    // Un nodo cuya línea desaparece (atributo, especialización) también se elimina
+    nodes.forEach(n => {
+      if (removedLines.has(n.lineIndex) && !removedIds.has(n.id)) {
+        removedIds.add(n.id);
+        changed = true;
+      }
+    });
+  }
+  // También desaparecen de las vistas
+  views.forEach(view => view.nodes.forEach(n => {
+    if (removedIds.has(n.id)) removedLines.add(n.lineIndex);
+  }));
+  return removeLines(doc, removedLines);
+};
@@ -0,0 +1,228 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import type { LinkData, NodeData } from './types';
+import { collapsedRelationships, crowsFootEnd } from './notation';
+import { generateDBML } from './dbml';
+
+/**
+ * EXPORTACIÓN A DIAGRAMAS ER EN TEXTO: Mermaid `erDiagram` y PlantUML (notación
+ * IE) dibujan entidades y relaciones binarias con pata de gallo. Lo que no
+ * tienen (relaciones n-arias o con atributos, jerarquías, categorías, entidades
+ * débiles, atributos compuestos...) se aproxima y se avisa en `warnings`.
+ */
+export type DiagramTextFormat = 'mermaid' | 'plantuml' | 'dbml';
+
+export const DIAGRAM_TEXT_FORMATS: Record<DiagramTextFormat, { label: string; extension: string }> = {
+  mermaid: { label: 'Mermaid', extension: 'mmd' },
+  plantuml: { label: 'PlantUML', extension: 'puml' },
+  dbml: { label: 'DBML', extension: 'dbml' },
+};
+
+// Código generado y avisos de lo que no se ha podido representar tal cual
+export interface TextExportResult {
+  code: string;
+  warnings: string[];
+}
+
+// Extremo de una línea con pata de gallo: mínimo (0 o 1) y si admite muchos
+interface End {
+  min: number;
+  many: boolean;
+}
+
+interface ErAttribute {
+  name: string;
+  key?: 'PK' | 'UK';
+  comment?: string;
+}
+
+interface ErEntity {
+  name: string;
+  weak: boolean;
+  attributes: ErAttribute[];
+}
+
+interface ErRelationship {
+  left: string;
+  right: string;
+  leftEnd: End;
+  rightEnd: End;
+  identifying: boolean;
+  label: string;
+}
+
+const isEntity = (n?: NodeData) => !!n && (n.type === 'entity' || n.type === 'weak_entity');
+const isRelationship = (n?: NodeData) => !!n && (n.type === 'relationship' || n.type === 'identifying_relationship');
+const isAttribute = (n?: NodeData) => !!n && n.type.endsWith('attribute');
+
+// Los dos lenguajes sólo admiten nombres sin espacios ni símbolos
+const toName = (label: string) => label.replace(/[^A-Za-z0-9_]/g, '_') || '_';
+const list = (names: string[]) => names.join(', ');
+
+const ATTRIBUTE_COMMENTS: Partial<Record<NodeData['type'], string>> = {
+  partial_key_attribute: 'clave parcial',
+  multivalued_attribute: 'multivaluado',
+  derived_attribute: 'derivado',
+};
+
+// Símbolos de pata de gallo a la izquierda y a la derecha de la línea (iguales en Mermaid y PlantUML)
+const leftSymbol = (end: End) => (end.many ? '}' : '|') + (end.min > 0 ? '|' : 'o');
+const rightSymbol = (end: End) => (end.min > 0 ? '|' : 'o') + (end.many ? '{' : '|');
+
+/**
+ * Entidades, relaciones binarias y herencias que comparten los dos lenguajes.
+ * Las relaciones que no son una línea entre dos entidades pasan a ser
+ * entidades asociativas unidas a cada participante.
+ */
+const toErModel = (nodes: NodeData[], links: LinkData[], warnings: string[]) => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const childrenOf = (id: string) => nodes.filter(n => isAttribute(n) && n.owner === id);
+
+  // Atributos simples del elemento: los compuestos se sustituyen por sus componentes
+  const attributesOf = (owner: NodeData): ErAttribute[] => {
+    let candidateKeys = 0;
+    const leaves = (attribute: NodeData, top: NodeData): ErAttribute[] => {
+      const children = childrenOf(attribute.id);
+      if (children.length === 0) {
+        const key = top.type === 'key_attribute' || top.type === 'partial_key_attribute' ? (candidateKeys === 1 ? 'PK' : 'UK') : undefined;
+        return [{ name: toName(attribute.label), key, comment: ATTRIBUTE_COMMENTS[attribute.type] ?? ATTRIBUTE_COMMENTS[top.type] }];
+      }
+      return children.flatMap(child => leaves(child, top));
+    };
+    return childrenOf(owner.id).flatMap(attribute => {
+      if (attribute.type === 'key_attribute' || attribute.type === 'partial_key_attribute') candidateKeys++;
+      if (childrenOf(attribute.id).length > 0) warnings.push(`El atributo compuesto '${owner.label}.${attribute.label}' se exporta como sus componentes.`);
+      if (attribute.type === 'multivalued_attribute') warnings.push(`El atributo multivaluado '${owner.label}.${attribute.label}' se exporta como un atributo simple.`);
+      return leaves(attribute, attribute);
+    });
+  };
+
+  const entities: ErEntity[] = nodes.filter(isEntity).map(n => ({ name: toName(n.label), weak: n.type === 'weak_entity', attributes: attributesOf(n) }));
+  const relationships: ErRelationship[] = [];
+  const inheritances: { parent: string; child: string }[] = [];
+
+  const collapsed = collapsedRelationships(nodes, links);
+  nodes.filter(isRelationship).forEach(relationship => {
+    const identifying = relationship.type === 'identifying_relationship';
+    const line = collapsed.get(relationship.id);
+    if (line) {
+      relationships.push({
+        left: toName(line.ends[0].label),
+        right: toName(line.ends[1].label),
+        leftEnd: crowsFootEnd(line, 0),
+        rightEnd: crowsFootEnd(line, 1),
+        identifying,
+        label: relationship.label,
+      });
+      return;
+    }
+    // Entidad asociativa: cada ocurrencia une una de cada participante
+    const participants = links
+      .filter(l => l.source === relationship.id || l.target === relationship.id)
+      .map(l => ({ link: l, node: byId.get(l.source === relationship.id ? l.target : l.source) }))
+      .filter(p => isEntity(p.node));
+    const name = toName(relationship.label);
+    const reason = participants.length > 2 ? 'es n-aria' : childrenOf(relationship.id).length > 0 ? 'tiene atributos' : 'no une dos entidades distintas';
+    warnings.push(`La relación '${relationship.label}' ${reason}: se exporta como la entidad asociativa '${name}'.`);
+    entities.push({ name, weak: false, attributes: attributesOf(relationship) });
+    participants.forEach(({ link, node }) => relationships.push({
+      left: toName(node!.label),
+      right: name,
+      leftEnd: { min: 1, many: false },
+      rightEnd: { min: link.style === 'double' ? 1 : 0, many: true },
+      identifying: true,
+      label: link.role ?? '',
+    }));
+  });
+
+  // Jerarquías: superclase -> subclases (la spec), superclases -> categoría (la unión)
+  nodes.filter(n => n.type === 'specialization' || n.type === 'union').forEach(hierarchy => {
+    const label = (id: string) => byId.get(id)?.label ?? id;
+    if (hierarchy.type === 'union') {
+      const supers = links.filter(l => l.target === hierarchy.id).map(l => l.source);
+      const category = links.find(l => l.source === hierarchy.id)?.target;
+      if (!category) return;
+      supers.forEach(parent => inheritances.push({ parent: toName(label(parent)), child: toName(label(category)) }));
+      warnings.push(`La categoría '${label(category)}' (unión de ${list(supers.map(label))}) se exporta enlazando la categoría con cada superclase: se pierde que cada ocurrencia pertenece sólo a una.`);
+      return;
+    }
+    const superLink = links.find(l => l.target === hierarchy.id && l.lineIndex === hierarchy.lineIndex);
+    if (!superLink) return;
+    const subs = links.filter(l => l !== superLink && (l.source === hierarchy.id || l.target === hierarchy.id)).map(l => (l.source === hierarchy.id ? l.target : l.source));
+    subs.forEach(child => inheritances.push({ parent: toName(label(superLink.source)), child: toName(label(child)) }));
+    const kind = hierarchy.label === 'o' ? 'solapada' : 'disjunta';
+    warnings.push(`La especialización ${kind} de '${label(superLink.source)}' en ${list(subs.map(label))} se exporta enlazando cada subclase con la superclase: se pierde que es ${kind}${hierarchy.definingAttribute ? ` y su atributo definidor '${hierarchy.definingAttribute}'` : ''}.`);
+  });
+
+  return { entities, relationships, inheritances };
+};
+
+/**
+ * Mermaid `erDiagram`: las herencias, que no existen, pasan a relaciones 'es'
+ * (cada subclase es una ocurrencia de la superclase).
+ */
+export const generateMermaid = (nodes: NodeData[], links: LinkData[]): TextExportResult => {
+  const warnings: string[] = [];
+  const { entities, relationships, inheritances } = toErModel(nodes, links, warnings);
+  entities.filter(e => e.weak).forEach(e => {
+    warnings.push(`La entidad débil '${e.name}' se exporta como entidad; su dependencia queda en la relación identificativa (línea continua).`);
+  });
+  const out = ['erDiagram'];
+  entities.forEach(entity => {
+    if (entity.attributes.length === 0) {
+      out.push(`    ${entity.name}`);
+      return;
+    }
+    out.push(`    ${entity.name} {`);
+    entity.attributes.forEach(a => out.push(`        string ${a.name}${a.key ? ` ${a.key}` : ''}${a.comment ? ` "${a.comment}"` : ''}`));
+    out.push('    }');
+  });
+  relationships.forEach(r => {
+    out.push(`    ${r.left} ${leftSymbol(r.leftEnd)}${r.identifying ? '--' : '..'}${rightSymbol(r.rightEnd)} ${r.right} : "${r.label.replace(/"/g, "'")}"`);
+  });
+  inheritances.forEach(h => out.push(`    ${h.parent} ||--o| ${h.child} : "es"`));
+  return { code: `${out.join('\n')}\n`, warnings };
+};
+
+/**
+ * PlantUML en notación IE: las entidades débiles llevan el estereotipo
+ * <<débil>> y las herencias se dibujan como generalizaciones.
+ */
+export const generatePlantUML = (nodes: NodeData[], links: LinkData[]): TextExportResult => {
+  const warnings: string[] = [];
+  const { entities, relationships, inheritances } = toErModel(nodes, links, warnings);
+  const out = ['@startuml', 'hide circle', 'skinparam linetype ortho', ''];
+  entities.forEach(entity => {
+    out.push(`entity ${entity.name}${entity.weak ? ' <<débil>>' : ''} {`);
+    const field = (a: ErAttribute) => `  ${a.key === 'PK' ? '* ' : ''}${a.name}${a.key === 'UK' ? ' <<UK>>' : ''}${a.comment ? ` <<${a.comment}>>` : ''}`;
+    const keys = entity.attributes.filter(a => a.key === 'PK');
+    out.push(...keys.map(field));
+    if (keys.length > 0 && keys.length < entity.attributes.length) out.push('  --');
+    out.push(...entity.attributes.filter(a => a.key !== 'PK').map(field));
+    out.push('}', '');
+  });
+  relationships.forEach(r => {
+    out.push(`${r.left} ${leftSymbol(r.leftEnd)}${r.identifying ? '--' : '..'}${rightSymbol(r.rightEnd)} ${r.right}${r.label ? ` : ${r.label}` : ''}`);
+  });
+  inheritances.forEach(h => out.push(`${h.parent} <|-- ${h.child}`));
+  out.push('@enduml');
+  return { code: `${out.join('\n')}\n`, warnings };
+};
+
+export const generateDiagramText = (nodes: NodeData[], links: LinkData[], format: DiagramTextFormat): TextExportResult => {
+  switch (format) {
+    case 'mermaid':
+      return generateMermaid(nodes, links);
+    case 'plantuml':
+      return generatePlantUML(nodes, links);
+    case 'dbml':
+      return generateDBML(nodes, links);
+  }
+};
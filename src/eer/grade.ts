@@ -0,0 +1,430 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import type { LinkData, NodeData } from './types';
+import { formatConstraint } from './printer';
+import { isManyCardinality } from './relational';
+import { binaryOpposites, constraintOf } from './notation';
+
+/**
+ * CORRECCIÓN AUTOMÁTICA: compara una entrega con la solución de referencia.
+ * Los elementos se emparejan por nombre (sin tildes, mayúsculas ni plurales,
+ * con sinónimos y nombres parecidos) y cada apartado se puntúa por separado:
+ * entidades, claves, relaciones, cardinalidades y jerarquías.
+ */
+export type GradeCategoryId = 'entities' | 'keys' | 'relationships' | 'cardinalities' | 'hierarchies';
+
+export const GRADE_CATEGORIES: Record<GradeCategoryId, string> = {
+  entities: 'Entidades',
+  keys: 'Claves',
+  relationships: 'Relaciones',
+  cardinalities: 'Cardinalidades y participación',
+  hierarchies: 'Jerarquías',
+};
+
+export const DEFAULT_GRADE_WEIGHTS: Record<GradeCategoryId, number> = {
+  entities: 30,
+  keys: 15,
+  relationships: 25,
+  cardinalities: 20,
+  hierarchies: 10,
+};
+
+export interface GradingOptions {
+  weights?: Partial<Record<GradeCategoryId, number>>;
+  synonyms?: string[][]; // Grupos de nombres equivalentes (CLIENTE, COMPRADOR)
+  threshold?: number; // Parecido mínimo (0-1) entre nombres distintos; por defecto 0.8
+  maxScore?: number; // Nota máxima; por defecto 10
+}
+
+// 'extra' son elementos de la entrega que no están en la solución: se informan sin puntuar
+export type GradeStatus = 'correct' | 'partial' | 'missing' | 'extra';
+
+export interface GradeItem {
+  status: GradeStatus;
+  points: number; // 0-1 (0 en los 'extra')
+  message: string;
+}
+
+export interface GradeCategory {
+  id: GradeCategoryId;
+  label: string;
+  weight: number;
+  earned: number;
+  possible: number; // Elementos de la solución en este apartado
+  items: GradeItem[];
+}
+
+export interface GradeReport {
+  score: number;
+  maxScore: number;
+  categories: GradeCategory[];
+  renamed: { reference: string; submission: string }[]; // Emparejados con otro nombre
+}
+
+type Model = { nodes: NodeData[]; links: LinkData[] };
+
+const DEFAULT_THRESHOLD = 0.8;
+
+const isEntity = (n: NodeData) => n.type === 'entity' || n.type === 'weak_entity';
+const isRelationship = (n: NodeData) => n.type.endsWith('relationship');
+const isKey = (n: NodeData) => n.type === 'key_attribute' || n.type === 'partial_key_attribute';
+const round = (value: number) => Math.round(value * 100) / 100;
+const list = (names: string[]) => names.length > 1 ? `${names.slice(0, -1).join(', ')} y ${names[names.length - 1]}` : names[0] ?? '(ninguna)';
+
+// Forma comparable de un nombre: sin tildes, mayúsculas, separadores ni 's' final
+const normalizeName = (name: string) => name
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/[^a-z0-9]/g, '')
+  .replace(/(.{3,})s$/, '$1');
+
+const levenshtein = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const similarity = (a: string, b: string) => 1 - levenshtein(a, b) / (Math.max(a.length, b.length) || 1);
+
+const jaccard = (a: string[], b: string[]) => {
+  const common = a.filter(id => b.includes(id)).length;
+  const union = new Set([...a, ...b]).size;
+  return union === 0 ? 1 : common / union;
+};
+
+/**
+ * Sinónimos escritos uno por línea: nombres equivalentes separados por comas
+ * o '='; las líneas vacías y las que empiezan por '#' o '//' se ignoran.
+ */
+export const parseSynonyms = (text: string): string[][] => text
+  .split('\n')
+  .map(line => line.trim())
+  .filter(line => line && !line.startsWith('#') && !line.startsWith('//'))
+  .map(line => line.split(/[,=]/).map(name => name.trim()).filter(Boolean))
+  .filter(group => group.length > 1);
+
+// Índices de un modelo que se usan al comparar
+const indexModel = (model: Model) => {
+  const byId = new Map(model.nodes.map(n => [n.id, n]));
+  const keysOf = (entity: NodeData) => model.nodes.filter(n => n.owner === entity.id && isKey(n));
+  // Conexiones entre una relación y sus participantes (todo lo que no es uno de sus atributos)
+  const participants = (relationship: NodeData) => model.links.filter(l => {
+    const other = byId.get(l.source === relationship.id ? l.target : l.source);
+    return (l.source === relationship.id || l.target === relationship.id) && !!other && !other.type.endsWith('attribute');
+  });
+  const participantOf = (link: LinkData, relationship: NodeData) => link.source === relationship.id ? link.target : link.source;
+  // Superclase (la conexión de la propia línea spec) y subclases de una especialización
+  const hierarchy = (node: NodeData) => {
+    if (node.type === 'union') {
+      const toCategory = model.links.find(l => l.source === node.id);
+      return {
+        supers: model.links.filter(l => l.target === node.id).map(l => l.source),
+        subs: toCategory ? [toCategory.target] : [],
+      };
+    }
+    const superLink = model.links.find(l => l.target === node.id && l.lineIndex === node.lineIndex);
+    return {
+      supers: superLink ? [superLink.source] : [],
+      subs: model.links.filter(l => l !== superLink && (l.source === node.id || l.target === node.id)).map(l => l.source === node.id ? l.target : l.source),
+    };
+  };
+  return { byId, keysOf, participants, participantOf, hierarchy };
+};
+
+/**
+ * Nota de la entrega `submission` frente a la solución `reference`, con un
+ * comentario por cada elemento de la solución (y los que sobran en la entrega).
+ */
+export const gradeModel = (reference: Model, submission: Model, options: GradingOptions = {}): GradeReport => {
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const weights = { ...DEFAULT_GRADE_WEIGHTS, ...options.weights };
+  const maxScore = options.maxScore ?? 10;
+  const synonyms = new Map<string, string>();
+  options.synonyms?.forEach(group => {
+    const canonical = normalizeName(group[0]);
+    group.forEach(name => synonyms.set(normalizeName(name), canonical));
+  });
+  const canonical = (name: string) => {
+    const normalized = normalizeName(name);
+    return synonyms.get(normalized) ?? normalized;
+  };
+  const sameName = (a: string, b: string) => canonical(a) === canonical(b) || similarity(canonical(a), canonical(b)) >= threshold;
+
+  const ref = indexModel(reference);
+  const sub = indexModel(submission);
+  const matched = new Map<string, NodeData>(); // ID de la solución -> nodo de la entrega
+  const taken = new Set<string>();
+  const renamed: GradeReport['renamed'] = [];
+  const pair = (a: NodeData, b: NodeData) => {
+    matched.set(a.id, b);
+    taken.add(b.id);
+    if (a.label !== b.label) renamed.push({ reference: a.label, submission: b.label });
+  };
+
+  // Primero los nombres equivalentes y después los más parecidos
+  const matchByName = (filter: (n: NodeData) => boolean) => {
+    const left = reference.nodes.filter(filter);
+    const right = submission.nodes.filter(filter);
+    left.forEach(a => {
+      const same = right.find(b => !taken.has(b.id) && canonical(b.label) === canonical(a.label));
+      if (same) pair(a, same);
+    });
+    const candidates: { a: NodeData; b: NodeData; score: number }[] = [];
+    left.filter(a => !matched.has(a.id)).forEach(a => right.filter(b => !taken.has(b.id)).forEach(b => {
+      const score = similarity(canonical(a.label), canonical(b.label));
+      if (score >= threshold) candidates.push({ a, b, score });
+    }));
+    candidates.sort((x, y) => y.score - x.score).forEach(({ a, b }) => {
+      if (!matched.has(a.id) && !taken.has(b.id)) pair(a, b);
+    });
+  };
+  matchByName(isEntity);
+  matchByName(isRelationship);
+
+  // Relaciones con otro nombre: la única de la entrega que une a los mismos participantes
+  const participantIds = (index: typeof ref, relationship: NodeData, map: boolean) => index.participants(relationship)
+    .map(l => index.participantOf(l, relationship))
+    .map(id => (map ? matched.get(id)?.id ?? `?${id}` : id))
+    .sort()
+    .join('|');
+  reference.nodes.filter(n => isRelationship(n) && !matched.has(n.id)).forEach(a => {
+    const key = participantIds(ref, a, true);
+    const same = submission.nodes.filter(b => isRelationship(b) && !taken.has(b.id) && participantIds(sub, b, false) === key);
+    if (same.length === 1) pair(a, same[0]);
+  });
+
+  const categories: GradeCategory[] = [];
+  const category = (id: GradeCategoryId, items: GradeItem[]) => {
+    const scored = items.filter(item => item.status !== 'extra');
+    categories.push({
+      id,
+      label: GRADE_CATEGORIES[id],
+      weight: weights[id],
+      earned: round(scored.reduce((sum, item) => sum + item.points, 0)),
+      possible: scored.length,
+      items,
+    });
+  };
+  const item = (points: number, message: string): GradeItem => ({ status: points >= 1 ? 'correct' : points > 0 ? 'partial' : 'missing', points: round(points), message });
+  const as = (a: NodeData) => {
+    const b = matched.get(a.id);
+    return b && b.label !== a.label ? ` (como '${b.label}')` : '';
+  };
+  const extras = (filter: (n: NodeData) => boolean, describe: (n: NodeData) => string) => submission.nodes
+    .filter(n => filter(n) && !taken.has(n.id))
+    .map((n): GradeItem => ({ status: 'extra', points: 0, message: `${describe(n)} no está en la solución.` }));
+
+  // Entidades: que existan y sean débiles o fuertes como en la solución
+  category('entities', [
+    ...reference.nodes.filter(isEntity).map(a => {
+      const b = matched.get(a.id);
+      if (!b) return item(0, `Falta la entidad '${a.label}'.`);
+      if (a.type !== b.type) return item(0.5, `'${a.label}'${as(a)} ${a.type === 'weak_entity' ? 'debería ser una entidad débil' : 'no debería ser una entidad débil'}.`);
+      return item(1, `Entidad '${a.label}'${as(a)}.`);
+    }),
+    ...extras(isEntity, n => `La entidad '${n.label}'`),
+  ]);
+
+  // Claves: los atributos clave (o claves parciales) de cada entidad
+  category('keys', reference.nodes.filter(n => isEntity(n) && ref.keysOf(n).length > 0).map(a => {
+    const expected = ref.keysOf(a).map(k => k.label);
+    const b = matched.get(a.id);
+    if (!b) return item(0, `Clave de '${a.label}': falta la entidad.`);
+    const actual = sub.keysOf(b).map(k => k.label);
+    const found = expected.filter(name => actual.some(other => sameName(name, other)));
+    const spare = actual.filter(name => !expected.some(other => sameName(name, other)));
+    if (found.length === expected.length && spare.length === 0) return item(1, `Clave de '${a.label}': ${list(actual)}.`);
+    const detail = `se esperaba ${list(expected)} y es ${actual.length > 0 ? list(actual) : '(ninguna)'}`;
+    return item(found.length > 0 ? 0.5 : 0, `Clave de '${a.label}': ${detail}.`);
+  }));
+
+  // Relaciones: que existan, con los mismos participantes y del mismo tipo (identificativa o no)
+  category('relationships', [
+    ...reference.nodes.filter(isRelationship).map(a => {
+      const b = matched.get(a.id);
+      const names = ref.participants(a).map(l => ref.byId.get(ref.participantOf(l, a))?.label ?? '?');
+      if (!b) return item(0, `Falta la relación '${a.label}' entre ${list(names)}.`);
+      const problems: string[] = [];
+      if (participantIds(ref, a, true) !== participantIds(sub, b, false)) {
+        const actual = sub.participants(b).map(l => sub.byId.get(sub.participantOf(l, b))?.label ?? '?');
+        problems.push(`une ${list(actual)} en lugar de ${list(names)}`);
+      }
+      if (a.type !== b.type) problems.push(a.type === 'identifying_relationship' ? 'debería ser identificativa' : 'no debería ser identificativa');
+      if (problems.length > 0) return item(0.5, `Relación '${a.label}'${as(a)}: ${problems.join('; ')}.`);
+      return item(1, `Relación '${a.label}'${as(a)} entre ${list(names)}.`);
+    }),
+    ...extras(isRelationship, n => `La relación '${n.label}'`),
+  ]);
+
+  // Cardinalidades: por cada participante de una relación emparejada, su cardinalidad y su participación.
+  // En las binarias se comparan como (min,max), que se deduce de la notación de Chen (escrita en el otro
+  // extremo); sólo en las n-arias se comparan las etiquetas tal cual
+  const refOpposites = binaryOpposites(reference.nodes, reference.links);
+  const subOpposites = binaryOpposites(submission.nodes, submission.links);
+  const many = (link: LinkData) => link.label ? isManyCardinality(link.label) : undefined;
+  const total = (link: LinkData) => link.style === 'double' || (link.constraint?.min ?? 0) >= 1;
+  const cardinalityText = (link: LinkData) => link.constraint ? formatConstraint(link.constraint) : link.label ?? '(ninguna)';
+  const compareCardinality = (link: LinkData, other: LinkData) => {
+    const expected = constraintOf(link, refOpposites.get(link));
+    const actual = constraintOf(other, subOpposites.get(other));
+    if (expected && actual) {
+      return { ok: String(expected.max) === String(actual.max), expected: formatConstraint(expected), actual: formatConstraint(actual) };
+    }
+    return {
+      ok: many(link) === many(other) && (!link.constraint || cardinalityText(link) === cardinalityText(other)),
+      expected: cardinalityText(link),
+      actual: cardinalityText(other),
+    };
+  };
+  const cardinalityItems: GradeItem[] = [];
+  reference.nodes.filter(n => isRelationship(n) && matched.has(n.id)).forEach(a => {
+    const b = matched.get(a.id)!;
+    const used = new Set<LinkData>();
+    ref.participants(a).forEach(link => {
+      const participant = ref.byId.get(ref.participantOf(link, a))!;
+      const name = `${participant.label}${link.role ? ` (${link.role})` : ''} en '${a.label}'`;
+      const target = matched.get(participant.id);
+      const candidates = target ? sub.participants(b).filter(l => !used.has(l) && sub.participantOf(l, b) === target.id) : [];
+      const other = candidates.find(l => !link.role || (l.role !== undefined && sameName(l.role, link.role))) ?? candidates[0];
+      if (!other) {
+        cardinalityItems.push(item(0, `${name}: falta la conexión.`));
+        return;
+      }
+      used.add(other);
+      const problems: string[] = [];
+      const cardinality = compareCardinality(link, other);
+      const cardinalityOk = cardinality.ok;
+      if (!cardinalityOk) problems.push(`cardinalidad ${cardinality.actual} en lugar de ${cardinality.expected}`);
+      if (total(link) !== total(other)) problems.push(`participación ${total(other) ? 'total' : 'parcial'} en lugar de ${total(link) ? 'total' : 'parcial'}`);
+      const points = (cardinalityOk ? 0.5 : 0) + (total(link) === total(other) ? 0.5 : 0);
+      cardinalityItems.push(item(points, problems.length > 0 ? `${name}: ${problems.join('; ')}.` : `${name}: ${cardinality.expected}, ${total(link) ? 'total' : 'parcial'}.`));
+    });
+  });
+  category('cardinalities', cardinalityItems);
+
+  // Jerarquías: mismas superclases y subclases y, en las especializaciones, la misma disyunción
+  const hierarchyItems: GradeItem[] = [];
+  const isHierarchy = (n: NodeData) => n.type === 'specialization' || n.type === 'union';
+  const labelsOf = (index: typeof ref, ids: string[]) => ids.map(id => index.byId.get(id)?.label ?? '?');
+  reference.nodes.filter(isHierarchy).forEach(a => {
+    const expected = ref.hierarchy(a);
+    const mapped = { supers: expected.supers.map(id => matched.get(id)?.id ?? `?${id}`), subs: expected.subs.map(id => matched.get(id)?.id ?? `?${id}`) };
+    const describe = a.type === 'union'
+      ? `Categoría ${list(labelsOf(ref, expected.subs))} de ${list(labelsOf(ref, expected.supers))}`
+      : `Especialización de ${list(labelsOf(ref, expected.supers))} en ${list(labelsOf(ref, expected.subs))}`;
+    // La de la entrega del mismo tipo con más superclases y subclases en común
+    const best = submission.nodes
+      .filter(n => n.type === a.type && !taken.has(n.id))
+      .map(n => ({ node: n, actual: sub.hierarchy(n) }))
+      .map(c => ({ ...c, score: jaccard(mapped.supers, c.actual.supers) + jaccard(mapped.subs, c.actual.subs) }))
+      .filter(c => c.score > 0)
+      .sort((x, y) => y.score - x.score)[0];
+    if (!best) {
+      hierarchyItems.push(item(0, `Falta: ${describe}.`));
+      return;
+    }
+    taken.add(best.node.id);
+    const { actual } = best;
+    const problems: string[] = [];
+    const supersOk = jaccard(mapped.supers, actual.supers);
+    const subsOk = jaccard(mapped.subs, actual.subs);
+    if (supersOk < 1) problems.push(`tiene como superclases ${list(labelsOf(sub, actual.supers))}`);
+    if (subsOk < 1) problems.push(`tiene como ${a.type === 'union' ? 'categoría' : 'subclases'} ${list(labelsOf(sub, actual.subs))}`);
+    let points = (supersOk + subsOk) / 2;
+    if (a.type === 'specialization') {
+      const disjointOk = a.label === best.node.label;
+      if (!disjointOk) problems.push(best.node.label === 'o' ? 'es solapada en lugar de disjunta' : 'es disjunta en lugar de solapada');
+      points = points * 0.75 + (disjointOk ? 0.25 : 0);
+    }
+    hierarchyItems.push(item(points, problems.length > 0 ? `${describe}: ${problems.join('; ')}.` : `${describe}.`));
+  });
+  category('hierarchies', [
+    ...hierarchyItems,
+    ...extras(isHierarchy, n => {
+      const { supers } = sub.hierarchy(n);
+      return `La ${n.type === 'union' ? 'categoría' : 'especialización'} de ${list(labelsOf(sub, supers))}`;
+    }),
+  ]);
+
+  // Nota: media ponderada de los apartados que aparecen en la solución
+  const counted = categories.filter(c => c.possible > 0 && c.weight > 0);
+  const totalWeight = counted.reduce((sum, c) => sum + c.weight, 0);
+  const fraction = totalWeight > 0 ? counted.reduce((sum, c) => sum + (c.weight * c.earned) / c.possible, 0) / totalWeight : 0;
+  return { score: round(fraction * maxScore), maxScore, categories, renamed };
+};
+
+/**
+ * Informe en JSON para procesarlo con otras herramientas (hojas de notas, LMS).
+ */
+export const formatGradeJSON = (report: GradeReport, student?: string) =>
+  `${JSON.stringify(student === undefined ? report : { student, ...report }, null, 2)}\n`;
+
+const escapeHTML = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const STATUS_STYLES: Record<GradeStatus, [string, string]> = {
+  correct: ['✔', '#16a34a'],
+  partial: ['◐', '#d97706'],
+  missing: ['✘', '#dc2626'],
+  extra: ['+', '#64748b'],
+};
+
+/**
+ * Informe en HTML autocontenido para entregar al estudiante.
+ */
+export const formatGradeHTML = (report: GradeReport, student?: string) => {
+  const title = student ? `Corrección: ${escapeHTML(student)}` : 'Corrección';
+  const rows = report.categories.map(c => `<tr><td>${escapeHTML(c.label)}</td><td>${c.weight}</td><td>${c.possible > 0 ? `${c.earned} / ${c.possible}` : '—'}</td></tr>`);
+  const sections = report.categories.filter(c => c.items.length > 0).map(c => [
+    `<h2>${escapeHTML(c.label)}</h2>`,
+    '<ul>',
+    ...c.items.map(i => `<li><span style="color:${STATUS_STYLES[i.status][1]}">${STATUS_STYLES[i.status][0]}</span> ${escapeHTML(i.message)}</li>`),
+    '</ul>',
+  ].join('\n'));
+  const renamed = report.renamed.length > 0
+    ? `<p class="note">Nombres tomados como equivalentes: ${report.renamed.map(r => `${escapeHTML(r.submission)} → ${escapeHTML(r.reference)}`).join(', ')}.</p>`
+    : '';
+  return `<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+body { font-family: ui-sans-serif, system-ui, sans-serif; color: #1e293b; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; }
+h1 { font-size: 1.5rem; } h2 { font-size: 1.1rem; margin-top: 1.5rem; }
+.score { font-size: 2rem; font-weight: bold; color: #4f46e5; }
+table { border-collapse: collapse; } td, th { border: 1px solid #e2e8f0; padding: 0.25rem 0.75rem; text-align: left; }
+ul { list-style: none; padding-left: 0; } li { margin: 0.2rem 0; }
+.note { color: #64748b; font-size: 0.9rem; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<p class="score">${report.score} / ${report.maxScore}</p>
+<table>
+<tr><th>Apartado</th><th>Peso</th><th>Puntos</th></tr>
+${rows.join('\n')}
+</table>
+${renamed}
+${sections.join('\n')}
+</body>
+</html>
+`;
+};
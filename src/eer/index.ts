@@ -0,0 +1,49 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+/**
+ * Núcleo del DSL .eer sin dependencias de React ni del navegador:
+ * lexer, parser a AST, printer sin pérdidas, ediciones y modelo de dibujo.
+ */
+export * from './types';
+export * from './ast';
+export { CONSTRAINT_REGEX, COORD_REGEX, tokenizeLine } from './lexer';
+export { parseLine, parseDocument } from './parser';
+export { printDocument, printLine, printLineText, formatStatement, formatCoords, formatConstraint } from './printer';
+export { appendLine, deleteNodes, insertLines, removeLines, renameElement, replaceLine, setCoords, setViewCoords } from './edit';
+export { buildModel, parseCode } from './model';
+export { mapToRelational, formatRelationalSchema, isManyCardinality, SPECIALIZATION_STRATEGIES } from './relational';
+export type { SpecializationStrategy, MappingOptions, ColumnKind, RelationalColumn, ForeignKey, RelationalTable, MappingNote, RelationalSchema } from './relational';
+export { generateSQL, SQL_DIALECTS } from './sql';
+export type { SqlDialect } from './sql';
+export { importSQL } from './sqlImport';
+export type { SqlImportResult } from './sqlImport';
+export { computeLayout, layoutDocument } from './layout';
+export type { LayoutOptions } from './layout';
+export { validateModel, VALIDATION_RULES } from './validate';
+export type { ValidationRule, ValidationOptions } from './validate';
+export { getDiagramBounds, NODE_HALF_SIZE } from './bounds';
+export type { Bounds } from './bounds';
+export { DSL_COMMANDS, getCompletions, highlightLine } from './completion';
+export type { HighlightKind, HighlightToken, CompletionItem, CompletionResult } from './completion';
+export { NOTATIONS, binaryOpposites, collapsedRelationships, constraintOf, crowsFootEnd, linkCaption } from './notation';
+export type { Notation, CollapsedRelationship } from './notation';
+export { buildWorkspaceModel, layoutWorkspace, loadWorkspace, resolveIncludePath } from './workspace';
+export type { Workspace } from './workspace';
+export { applyView } from './views';
+export { DIFF_COLORS, diffColors, diffModels } from './diff';
+export type { DiffStatus, ModelChange, ModelDiff, DiffOptions } from './diff';
+export { DEFAULT_GRADE_WEIGHTS, formatGradeHTML, formatGradeJSON, GRADE_CATEGORIES, gradeModel, parseSynonyms } from './grade';
+export type { GradeCategory, GradeCategoryId, GradeItem, GradeReport, GradeStatus, GradingOptions } from './grade';
+export { DIAGRAM_TEXT_FORMATS, generateDiagramText, generateMermaid, generatePlantUML } from './erText';
+export type { DiagramTextFormat, TextExportResult } from './erText';
+export { generateDBML } from './dbml';
+export { importMermaid } from './mermaidImport';
+export type { TextImportResult } from './mermaidImport';
+export { importDBML } from './dbmlImport';
@@ -0,0 +1,389 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import type { Coords, EERDocument } from './ast';
+import type { LinkData, NodeData, NodeType } from './types';
+import { setCoords } from './edit';
+import { buildModel } from './model';
+
+/**
+ * DISTRIBUCIÓN AUTOMÁTICA del diagrama:
+ * 1. Entidades, relaciones y jerarquías forman el "esqueleto". Se colocan por
+ *    capas (las jerarquías fluyen de arriba abajo) y se refinan con fuerzas:
+ *    repulsión entre nodos, muelles en las conexiones y las relaciones atraídas
+ *    al centro de sus participantes.
+ * 2. Los atributos orbitan a su propietario en los huecos que dejan las
+ *    conexiones; los subatributos se abren en abanico hacia fuera.
+ * 3. Los grupos no conectados entre sí se colocan en filas.
+ * El resultado es determinista: el mismo código produce siempre la misma distribución.
+ */
+export interface LayoutOptions {
+  /** Nodos que conservan su posición actual (el resto se distribuye a su alrededor) */
+  fixed?: ReadonlySet<string>;
+}
+
+// Radio aproximado de cada forma (ver renderNodeShape)
+const SHAPE_RADIUS: Record<NodeType, number> = {
+  entity: 55,
+  weak_entity: 55,
+  relationship: 60,
+  identifying_relationship: 60,
+  attribute: 45,
+  key_attribute: 45,
+  partial_key_attribute: 45,
+  derived_attribute: 45,
+  multivalued_attribute: 45,
+  specialization: 20,
+  union: 20,
+};
+const ATTRIBUTE_SPACING = 100; // Arco que ocupa cada atributo en la órbita
+const SUBATTRIBUTE_DISTANCE = 95;
+const HIERARCHY_GAP = 110; // Separación vertical mínima entre niveles de una jerarquía
+const COMPONENT_GAP = 80;
+const MAX_ROW_WIDTH = 1600;
+const MARGIN = 80;
+const ITERATIONS = 300;
+
+const isAttribute = (n: NodeData) => n.type.endsWith('attribute');
+
+export const computeLayout = (nodes: NodeData[], links: LinkData[], options: LayoutOptions = {}): Map<string, Coords> => {
+  const fixed = options.fixed ?? new Set<string>();
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const positions = new Map<string, Coords>(nodes.map(n => [n.id, { x: n.x, y: n.y }]));
+
+  // Un atributo es satélite si su cadena de propietarios termina en un nodo que no es atributo
+  const isSatellite = (n: NodeData) => {
+    const seen = new Set<string>();
+    let current: NodeData | undefined = n;
+    while (current && isAttribute(current) && !seen.has(current.id)) {
+      seen.add(current.id);
+      current = current.owner ? byId.get(current.owner) : undefined;
+    }
+    return !!current && !isAttribute(current);
+  };
+  const satellites = nodes.filter(n => isAttribute(n) && isSatellite(n));
+  const satelliteIds = new Set(satellites.map(n => n.id));
+  const core = nodes.filter(n => !satelliteIds.has(n.id));
+  const coreIds = new Set(core.map(n => n.id));
+
+  const children = new Map<string, NodeData[]>();
+  satellites.forEach(n => children.set(n.owner!, [...(children.get(n.owner!) ?? []), n]));
+
+  // Tamaño de la órbita de atributos y "halo" que ocupa cada nodo con ellos
+  const subtreeDepth = (id: string): number => Math.max(0, ...(children.get(id) ?? []).map(c => 1 + subtreeDepth(c.id)));
+  const orbit = (id: string) => {
+    const count = children.get(id)?.length ?? 0;
+    return Math.max(SHAPE_RADIUS[byId.get(id)!.type] + 75, (count * ATTRIBUTE_SPACING) / (2 * Math.PI * 0.7));
+  };
+  const halo = new Map(core.map(n => {
+    const depth = subtreeDepth(n.id);
+    return [n.id, depth === 0 ? SHAPE_RADIUS[n.type] : orbit(n.id) + SHAPE_RADIUS.attribute + (depth - 1) * SUBATTRIBUTE_DISTANCE];
+  }));
+
+  // Conexiones entre nodos del esqueleto (sin repetir) y vecinos de cada uno
+  const edges: [string, string][] = [];
+  const neighbors = new Map<string, string[]>(core.map(n => [n.id, []]));
+  links.forEach(l => {
+    if (!coreIds.has(l.source) || !coreIds.has(l.target) || l.source === l.target) return;
+    if (neighbors.get(l.source)!.includes(l.target)) return;
+    edges.push([l.source, l.target]);
+    neighbors.get(l.source)!.push(l.target);
+    neighbors.get(l.target)!.push(l.source);
+  });
+
+  // Jerarquías: [superior, inferior]. En una especialización la superclase es la
+  // conexión definida en su propia línea; en una unión, las que llegan a ella.
+  const above: [string, string][] = [];
+  core.filter(n => n.type === 'specialization' || n.type === 'union').forEach(h => {
+    links.forEach(l => {
+      if ((l.source !== h.id && l.target !== h.id) || l.source === l.target) return;
+      const other = l.source === h.id ? l.target : l.source;
+      if (!coreIds.has(other)) return;
+      const isUpper = h.type === 'specialization' ? l.lineIndex === h.lineIndex : l.target === h.id;
+      above.push(isUpper ? [other, h.id] : [h.id, other]);
+    });
+  });
+  const lowers = new Set(above.map(([, lower]) => lower));
+
+  // Componentes conexas del esqueleto
+  const components: NodeData[][] = [];
+  const visited = new Set<string>();
+  core.forEach(start => {
+    if (visited.has(start.id)) return;
+    const component: NodeData[] = [];
+    const queue = [start.id];
+    visited.add(start.id);
+    while (queue.length) {
+      const id = queue.shift()!;
+      component.push(byId.get(id)!);
+      neighbors.get(id)!.forEach(next => {
+        if (!visited.has(next)) {
+          visited.add(next);
+          queue.push(next);
+        }
+      });
+    }
+    components.push(component);
+  });
+
+  const layoutComponent = (component: NodeData[]) => {
+    const ids = new Set(component.map(n => n.id));
+    const hierarchy = above.filter(([upper]) => ids.has(upper));
+
+    // 1. Capas: distancia en anchura desde la raíz; cada nivel de jerarquía, debajo del anterior
+    const root = component
+      .filter(n => !lowers.has(n.id))
+      .reduce<NodeData | undefined>((best, n) => (!best || neighbors.get(n.id)!.length > neighbors.get(best.id)!.length ? n : best), undefined)
+      ?? component[0];
+    const rank = new Map<string, number>([[root.id, 0]]);
+    const queue = [root.id];
+    while (queue.length) {
+      const id = queue.shift()!;
+      neighbors.get(id)!.forEach(next => {
+        if (!rank.has(next)) {
+          rank.set(next, rank.get(id)! + 1);
+          queue.push(next);
+        }
+      });
+    }
+    for (let i = 0, changed = true; changed && i < component.length; i++) {
+      changed = false;
+      hierarchy.forEach(([upper, lower]) => {
+        if (rank.get(lower)! <= rank.get(upper)!) {
+          rank.set(lower, rank.get(upper)! + 1);
+          changed = true;
+        }
+      });
+    }
+
+    // 2. Posición inicial: capas ordenadas por el baricentro de sus vecinos de la capa anterior
+    const layers: NodeData[][] = [];
+    component.forEach(n => (layers[rank.get(n.id)!] ??= []).push(n));
+    const seed = new Map<string, Coords>();
+    let y = 0;
+    layers.forEach((layer, r) => {
+      if (!layer) return;
+      if (r > 0) {
+        const barycenter = (n: NodeData) => {
+          const xs = neighbors.get(n.id)!.map(id => seed.get(id)?.x).filter((x): x is number => x !== undefined);
+          return xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 0;
+        };
+        layer.sort((a, b) => barycenter(a) - barycenter(b));
+      }
+      const widths = layer.map(n => 2 * halo.get(n.id)! + 40);
+      let x = -widths.reduce((a, b) => a + b, 0) / 2;
+      const height = Math.max(...layer.map(n => halo.get(n.id)!));
+      y += height;
+      layer.forEach((n, i) => {
+        seed.set(n.id, { x: x + widths[i] / 2, y });
+        x += widths[i];
+      });
+      y += height + 40;
+    });
+
+    // Si hay nodos fijos, la semilla se desplaza para coincidir con ellos
+    const pinned = component.filter(n => fixed.has(n.id));
+    if (pinned.length) {
+      const dx = pinned.reduce((s, n) => s + n.x - seed.get(n.id)!.x, 0) / pinned.length;
+      const dy = pinned.reduce((s, n) => s + n.y - seed.get(n.id)!.y, 0) / pinned.length;
+      component.forEach(n => seed.set(n.id, fixed.has(n.id) ? { x: n.x, y: n.y } : { x: seed.get(n.id)!.x + dx, y: seed.get(n.id)!.y + dy }));
+    }
+
+    // 3. Refinamiento por fuerzas
+    const pos = seed;
+    const move = (id: string, dx: number, dy: number, disp: Map<string, Coords>) => {
+      if (fixed.has(id)) return;
+      const d = disp.get(id)!;
+      d.x += dx;
+      d.y += dy;
+    };
+    const relax = (iterations: number, withSprings: boolean) => {
+      for (let iter = 0; iter < iterations; iter++) {
+        const temperature = 80 * (1 - iter / iterations) + 2;
+        const disp = new Map(component.map(n => [n.id, { x: 0, y: 0 }]));
+
+        // Repulsión (y separación estricta si los halos se solapan)
+        for (let i = 0; i < component.length; i++) {
+          for (let j = i + 1; j < component.length; j++) {
+            const a = component[i].id;
+            const b = component[j].id;
+            let dx = pos.get(b)!.x - pos.get(a)!.x;
+            let dy = pos.get(b)!.y - pos.get(a)!.y;
+            if (dx === 0 && dy === 0) {
+              // Nodos superpuestos: se separan en una dirección que depende de su posición en la lista
+              dx = Math.cos(i + j);
+              dy = Math.sin(i + j);
+            }
+            const dist = Math.hypot(dx, dy);
+            const minDist = halo.get(a)! + halo.get(b)! + 30;
+            let force = withSprings && dist < 2.5 * minDist ? (minDist * minDist * 0.02) / dist : 0;
+            if (dist < minDist) force += (minDist - dist) / 2;
+            move(a, (-dx / dist) * force, (-dy / dist) * force, disp);
+            move(b, (dx / dist) * force, (dy / dist) * force, disp);
+          }
+        }
+
+        if (withSprings) {
+          // Muelles en las conexiones
+          edges.forEach(([a, b]) => {
+            if (!ids.has(a)) return;
+            const dx = pos.get(b)!.x - pos.get(a)!.x;
+            const dy = pos.get(b)!.y - pos.get(a)!.y;
+            const dist = Math.hypot(dx, dy) || 1;
+            const ideal = Math.max(SHAPE_RADIUS[byId.get(a)!.type] + SHAPE_RADIUS[byId.get(b)!.type] + 80, (halo.get(a)! + halo.get(b)!) * 0.75);
+            const force = (dist - ideal) * 0.15;
+            move(a, (dx / dist) * force, (dy / dist) * force, disp);
+            move(b, (-dx / dist) * force, (-dy / dist) * force, disp);
+          });
+
+          // Las relaciones se sitúan entre sus participantes
+          component.filter(n => n.type === 'relationship' || n.type === 'identifying_relationship').forEach(rel => {
+            const others = neighbors.get(rel.id)!;
+            if (others.length < 2) return;
+            const cx = others.reduce((s, id) => s + pos.get(id)!.x, 0) / others.length;
+            const cy = others.reduce((s, id) => s + pos.get(id)!.y, 0) / others.length;
+            move(rel.id, (cx - pos.get(rel.id)!.x) * 0.2, (cy - pos.get(rel.id)!.y) * 0.2, disp);
+          });
+        }
+
+        component.forEach(n => {
+          const d = disp.get(n.id)!;
+          const length = Math.hypot(d.x, d.y);
+          if (length === 0) return;
+          const scale = Math.min(length, temperature) / length;
+          pos.set(n.id, { x: pos.get(n.id)!.x + d.x * scale, y: pos.get(n.id)!.y + d.y * scale });
+        });
+
+        // Restricción de jerarquía: cada nivel por debajo del anterior
+        hierarchy.forEach(([upper, lower]) => {
+          const gap = Math.max(HIERARCHY_GAP, SHAPE_RADIUS[byId.get(upper)!.type] + SHAPE_RADIUS[byId.get(lower)!.type] + 60);
+          const deficit = pos.get(upper)!.y + gap - pos.get(lower)!.y;
+          if (deficit <= 0) return;
+          const upperFixed = fixed.has(upper);
+          const lowerFixed = fixed.has(lower);
+          if (upperFixed && lowerFixed) return;
+          const share = upperFixed || lowerFixed ? 1 : 0.5;
+          if (!upperFixed) pos.set(upper, { x: pos.get(upper)!.x, y: pos.get(upper)!.y - deficit * share });
+          if (!lowerFixed) pos.set(lower, { x: pos.get(lower)!.x, y: pos.get(lower)!.y + deficit * share });
+        });
+      }
+    };
+    relax(ITERATIONS, true);
+    relax(50, false);
+    component.forEach(n => positions.set(n.id, pos.get(n.id)!));
+  };
+
+  components.forEach(layoutComponent);
+
+  // 4. Atributos alrededor de su propietario, en los huecos entre conexiones
+  const normalize = (angle: number) => ((angle % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+  const angleTo = (from: Coords, to: Coords) => normalize(Math.atan2(to.y - from.y, to.x - from.x));
+
+  const placeSubattributes = (parent: NodeData, direction: number) => {
+    const parentPos = positions.get(parent.id)!;
+    const free = (children.get(parent.id) ?? []).filter(c => !fixed.has(c.id));
+    const spread = Math.min(1.5 * Math.PI, (free.length - 1) * 1.0);
+    free.forEach((child, i) => {
+      const angle = free.length === 1 ? direction : direction - spread / 2 + (spread * i) / (free.length - 1);
+      positions.set(child.id, { x: parentPos.x + Math.cos(angle) * SUBATTRIBUTE_DISTANCE, y: parentPos.y + Math.sin(angle) * SUBATTRIBUTE_DISTANCE });
+    });
+    (children.get(parent.id) ?? []).forEach(child => placeSubattributes(child, angleTo(parentPos, positions.get(child.id)!)));
+  };
+
+  core.forEach(owner => {
+    const attrs = children.get(owner.id) ?? [];
+    if (!attrs.length) return;
+    const center = positions.get(owner.id)!;
+    const occupied = [
+      ...neighbors.get(owner.id)!.map(id => angleTo(center, positions.get(id)!)),
+      ...attrs.filter(a => fixed.has(a.id)).map(a => angleTo(center, positions.get(a.id)!)),
+    ].sort((a, b) => a - b);
+    const free = attrs.filter(a => !fixed.has(a.id));
+    const radius = orbit(owner.id);
+
+    let angles: number[];
+    if (!occupied.length) {
+      angles = free.map((_, i) => -Math.PI / 2 + (2 * Math.PI * i) / free.length);
+    } else {
+      // Reparto de los atributos entre los huecos, dando cada uno al hueco con más espacio libre
+      const gaps = occupied.map((start, i) => ({ start, size: i + 1 < occupied.length ? occupied[i + 1] - start : occupied[0] + 2 * Math.PI - start, count: 0 }));
+      free.forEach(() => {
+        const best = gaps.reduce((a, b) => (b.size / (b.count + 1) > a.size / (a.count + 1) ? b : a));
+        best.count++;
+      });
+      angles = gaps.flatMap(g => Array.from({ length: g.count }, (_, j) => g.start + (g.size * (j + 1)) / (g.count + 1)));
+    }
+    free.forEach((attr, i) => positions.set(attr.id, { x: center.x + Math.cos(angles[i]) * radius, y: center.y + Math.sin(angles[i]) * radius }));
+    attrs.forEach(attr => placeSubattributes(attr, angleTo(center, positions.get(attr.id)!)));
+  });
+
+  // 5. Componentes sin nodos fijos: en filas, por debajo de los que tienen nodos fijos
+  const members = (component: NodeData[]) => {
+    const result: NodeData[] = [];
+    const add = (n: NodeData) => {
+      result.push(n);
+      (children.get(n.id) ?? []).forEach(add);
+    };
+    component.forEach(add);
+    return result;
+  };
+  const bounds = (group: NodeData[]) => ({
+    minX: Math.min(...group.map(n => positions.get(n.id)!.x - SHAPE_RADIUS[n.type])),
+    minY: Math.min(...group.map(n => positions.get(n.id)!.y - SHAPE_RADIUS[n.type])),
+    maxX: Math.max(...group.map(n => positions.get(n.id)!.x + SHAPE_RADIUS[n.type])),
+    maxY: Math.max(...group.map(n => positions.get(n.id)!.y + SHAPE_RADIUS[n.type])),
+  });
+
+  const groups = components.map(members);
+  const anchored = groups.filter(g => g.some(n => fixed.has(n.id)));
+  const floating = groups.filter(g => !g.some(n => fixed.has(n.id))).sort((a, b) => b.length - a.length);
+  let cursorX = MARGIN;
+  let cursorY = MARGIN;
+  if (anchored.length) {
+    const all = bounds(anchored.flat());
+    cursorX = all.minX;
+    cursorY = all.maxY + COMPONENT_GAP;
+  }
+  const rowStart = cursorX;
+  let rowHeight = 0;
+  floating.forEach(group => {
+    const box = bounds(group);
+    const width = box.maxX - box.minX;
+    if (cursorX > rowStart && cursorX + width > rowStart + MAX_ROW_WIDTH) {
+      cursorX = rowStart;
+      cursorY += rowHeight + COMPONENT_GAP;
+      rowHeight = 0;
+    }
+    group.forEach(n => {
+      const p = positions.get(n.id)!;
+      positions.set(n.id, { x: p.x - box.minX + cursorX, y: p.y - box.minY + cursorY });
+    });
+    cursorX += width + COMPONENT_GAP;
+    rowHeight = Math.max(rowHeight, box.maxY - box.minY);
+  });
+
+  positions.forEach((p, id) => positions.set(id, { x: Math.round(p.x), y: Math.round(p.y) }));
+  return positions;
+};
+
+/**
+ * Distribuye el diagrama y escribe las coordenadas en el código, igual que
+ * al arrastrar un nodo. Con `keepExisting` sólo se colocan los nodos que no
+ * tienen coordenadas.
+ */
+export const layoutDocument = (doc: EERDocument, options: { keepExisting?: boolean } = {}): EERDocument => {
+  const { nodes, links } = buildModel(doc);
+  const hasCoords = (n: NodeData) => {
+    const statement = doc.lines[n.lineIndex].statement;
+    return !!statement && statement.kind !== 'link' && statement.kind !== 'include' && statement.kind !== 'view' && !!statement.coords;
+  };
+  const fixed = new Set(options.keepExisting ? nodes.filter(hasCoords).map(n => n.id) : []);
+  const positions = computeLayout(nodes, links, { fixed });
+  return nodes.reduce((current, n) => (fixed.has(n.id) ? current : setCoords(current, n.lineIndex, positions.get(n.id)!)), doc);
+};
@@ -0,0 +1,101 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import type { Token, TokenKind } from './ast';
+import type { StructuralConstraint } from './types';
+
+export const COORD_REGEX = /\(\s*(-?\d+)\s*,\s*(-?\d+)\s*\)/;
+const COORD_TOKEN_REGEX = new RegExp(`^${COORD_REGEX.source}`);
+// (min,max) con máximo no numérico: (0,N), (1,M), (0,*). Con dos números el token es 'coords'
+export const CONSTRAINT_REGEX = /\(\s*(\d+)\s*,\s*([NMnm*])\s*\)/;
+const CONSTRAINT_TOKEN_REGEX = new RegExp(`^${CONSTRAINT_REGEX.source}`);
+
+export interface LineTokens {
+  tokens: Token[];
+  trailing: string;
+}
+
+/**
+ * LEXER: Divide una línea (sin el salto de línea) en tokens.
+ * Cada token guarda el espacio en blanco que lo precede para poder
+ * reconstruir la línea exactamente.
+ */
+export const tokenizeLine = (text: string, lineNumber: number): LineTokens => {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < text.length) {
+    const wsStart = pos;
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+    if (pos >= text.length) {
+      return { tokens, trailing: text.slice(wsStart) };
+    }
+    const leading = text.slice(wsStart, pos);
+    const start = pos;
+    const rest = text.slice(pos);
+    let kind: TokenKind;
+
+    if (rest.startsWith('//')) {
+      kind = 'comment';
+      pos = text.length;
+    } else if (rest.startsWith('->')) {
+      kind = 'arrow';
+      pos += 2;
+    } else if (rest[0] === '"') {
+      const close = text.indexOf('"', pos + 1);
+      kind = close === -1 ? 'invalid' : 'string';
+      pos = close === -1 ? text.length : close + 1;
+    } else if (rest[0] === '[') {
+      const close = text.indexOf(']', pos + 1);
+      kind = close === -1 ? 'invalid' : 'flag';
+      pos = close === -1 ? text.length : close + 1;
+    } else if (rest[0] === '(') {
+      const match = rest.match(COORD_TOKEN_REGEX);
+      const constraint = match ? null : rest.match(CONSTRAINT_TOKEN_REGEX);
+      if (match) {
+        kind = 'coords';
+        pos += match[0].length;
+      } else if (constraint) {
+        kind = 'constraint';
+        pos += constraint[0].length;
+      } else {
+        const close = text.indexOf(')', pos + 1);
+        kind = 'invalid';
+        pos = close === -1 ? text.length : close + 1;
+      }
+    } else {
+      kind = 'word';
+      while (pos < text.length && !/[\s"[(]/.test(text[pos]) && !text.startsWith('->', pos) && !text.startsWith('//', pos)) pos++;
+    }
+
+    tokens.push({
+      kind,
+      text: text.slice(start, pos),
+      leading,
+      span: { line: lineNumber, column: start + 1, endColumn: pos + 1 },
+    });
+  }
+
+  return { tokens, trailing: '' };
+};
+
+export const parseConstraintToken = (text: string): StructuralConstraint | undefined => {
+  const coords = parseCoordsToken(text);
+  if (coords) return { min: coords.x, max: coords.y };
+  const match = text.match(CONSTRAINT_REGEX);
+  if (!match) return undefined;
+  const max = match[2].toUpperCase();
+  return { min: parseInt(match[1], 10), max: max === 'M' ? 'M' : 'N' };
+};
+
+export const parseCoordsToken = (text: string) => {
+  const match = text.match(COORD_REGEX);
+  if (!match) return undefined;
+  return { x: parseInt(match[1], 10), y: parseInt(match[2], 10) };
+};
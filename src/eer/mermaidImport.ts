@@ -0,0 +1,207 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import { parseDocument } from './parser';
+import { printDocument } from './printer';
+import { layoutDocument } from './layout';
+
+/**
+ * IMPORTACIÓN DE MERMAID: lee un `erDiagram` (suelto o dentro de un bloque
+ * ```mermaid de Markdown) y genera código .eer ya distribuido:
+ * - cada relación (línea con pata de gallo) pasa a un rombo con la cardinalidad
+ *   y la participación que indican sus extremos
+ * - los atributos PK son la clave (compuesta si hay varios) y los UK, claves candidatas
+ * - una entidad con atributos PK y FK (o con una "clave parcial", como la exporta
+ *   EER Studio) unida por una línea continua ('--') a su propietaria es débil y
+ *   esa relación, identificativa
+ * - los atributos FK que no son clave se omiten: ya los representa la relación
+ */
+
+// Código generado y avisos de lo que no se ha podido traducir
+export interface TextImportResult {
+  code: string;
+  warnings: string[];
+}
+
+interface End {
+  min: number;
+  many: boolean;
+}
+
+interface MermaidAttribute {
+  name: string;
+  keys: string[]; // PK, FK, UK
+  comment?: string;
+}
+
+interface MermaidRelationship {
+  left: string;
+  right: string;
+  leftEnd: End;
+  rightEnd: End;
+  identifying: boolean;
+  label: string;
+}
+
+const LEFT_ENDS: Record<string, End> = {
+  '|o': { min: 0, many: false },
+  '||': { min: 1, many: false },
+  '}o': { min: 0, many: true },
+  '}|': { min: 1, many: true },
+};
+
+const RIGHT_ENDS: Record<string, End> = {
+  'o|': { min: 0, many: false },
+  '||': { min: 1, many: false },
+  'o{': { min: 0, many: true },
+  '|{': { min: 1, many: true },
+};
+
+const NAME = String.raw`([\w-]+|"[^"]+")(?:\[[^\]]*\])?`;
+const RELATIONSHIP_REGEX = new RegExp(String.raw`^${NAME}\s*(\|o|\|\||\}o|\}\|)(--|\.\.)(o\||\|\||o\{|\|\{)\s*${NAME}\s*:\s*(.*)$`);
+const ENTITY_REGEX = new RegExp(String.raw`^${NAME}\s*(\{)?\s*(\})?$`);
+const ATTRIBUTE_REGEX = /^(\S+)\s+(\S+)((?:\s*(?:PK|FK|UK)\s*,?)*)\s*(?:"([^"]*)")?$/;
+
+const unquote = (name: string) => name.replace(/^"|"$/g, '');
+// Los identificadores del DSL no admiten espacios ni símbolos
+const toId = (name: string) => unquote(name).replace(/[^A-Za-z0-9_]/g, '_') || '_';
+
+// El primer bloque ```mermaid con un erDiagram, si el texto es Markdown
+const extractDiagram = (text: string) => {
+  const blocks = [...text.matchAll(/```\s*mermaid[^\n]*\n([\s\S]*?)```/g)].map(m => m[1]);
+  return blocks.find(block => /^\s*erDiagram\b/m.test(block)) ?? text;
+};
+
+export const importMermaid = (text: string): TextImportResult => {
+  const warnings: string[] = [];
+  const entities = new Map<string, MermaidAttribute[]>();
+  const relationships: MermaidRelationship[] = [];
+  const ensure = (name: string) => {
+    const id = toId(name);
+    if (!entities.has(id)) entities.set(id, []);
+    return id;
+  };
+
+  let started = false;
+  let current: string | null = null;
+  extractDiagram(text).split('\n').forEach((raw, index) => {
+    const line = raw.replace(/%%.*$/, '').trim();
+    if (!line) return;
+    if (!started) {
+      // Lo anterior a 'erDiagram' (p. ej. la cabecera '---' con el título) no es del diagrama
+      started = /^erDiagram\b/.test(line);
+      return;
+    }
+    if (current) {
+      if (line === '}') {
+        current = null;
+        return;
+      }
+      const match = line.match(ATTRIBUTE_REGEX);
+      if (!match) {
+        warnings.push(`Línea ${index + 1}: no se entiende el atributo '${line}'.`);
+        return;
+      }
+      const keys = match[3].split(/[\s,]+/).filter(Boolean);
+      entities.get(current)!.push({ name: match[2], keys, comment: match[4] });
+      return;
+    }
+    if (/^(direction|title|accTitle|accDescr)\b/.test(line)) return;
+    const relationship = line.match(RELATIONSHIP_REGEX);
+    if (relationship) {
+      relationships.push({
+        left: ensure(relationship[1]),
+        right: ensure(relationship[5]),
+        leftEnd: LEFT_ENDS[relationship[2]],
+        rightEnd: RIGHT_ENDS[relationship[4]],
+        identifying: relationship[3] === '--',
+        label: unquote(relationship[6].trim()),
+      });
+      return;
+    }
+    const entity = line.match(ENTITY_REGEX);
+    if (entity) {
+      const id = ensure(entity[1]);
+      if (entity[2] && !entity[3]) current = id;
+      return;
+    }
+    warnings.push(`Línea ${index + 1}: no se entiende '${line}'.`);
+  });
+  if (!started) warnings.push('No hay ningún erDiagram.');
+
+  // Débiles: con clave prestada o parcial y una relación continua con una propietaria (extremo 1)
+  const borrowsKey = (id: string) => entities.get(id)!.some(a => a.keys.includes('PK') && a.keys.includes('FK'));
+  const dependsOnOwner = (id: string) => borrowsKey(id) || entities.get(id)!.some(a => a.comment?.toLowerCase() === 'clave parcial');
+  const dependent = (r: MermaidRelationship) => {
+    if (!r.identifying || r.left === r.right) return undefined;
+    if (!r.leftEnd.many && dependsOnOwner(r.right)) return r.right;
+    if (!r.rightEnd.many && dependsOnOwner(r.left)) return r.left;
+    return undefined;
+  };
+  const identifying = new Set(relationships.filter(r => dependent(r)));
+  const weak = new Set(relationships.map(dependent).filter(id => id !== undefined));
+
+  const lines: string[] = ['// Diagrama generado a partir de un erDiagram de Mermaid'];
+  warnings.forEach(w => lines.push(`// Aviso: ${w}`));
+  const usedIds = new Set(entities.keys());
+  const uniqueId = (base: string) => {
+    let id = toId(base);
+    let i = 2;
+    while (usedIds.has(id)) id = `${toId(base)}_${i++}`;
+    usedIds.add(id);
+    return id;
+  };
+
+  entities.forEach((attributes, id) => {
+    lines.push('', `${weak.has(id) ? 'weak_ent' : 'ent'} ${id}`);
+    // La clave propia: los PK que no son a la vez FK (en una débil, su clave parcial)
+    const key = attributes.filter(a => a.keys.includes('PK') && !a.keys.includes('FK'));
+    const keyword = weak.has(id) ? 'partial_key_att' : 'key_att';
+    if (key.length === 1) {
+      lines.push(`${keyword} ${toId(key[0].name)} -> ${id}`);
+    } else if (key.length > 1) {
+      const composite = toId(key.map(a => a.name).join('_'));
+      lines.push(`${keyword} ${composite} -> ${id}`);
+      key.forEach(a => lines.push(`att ${toId(a.name)} -> ${id}.${composite}`));
+    }
+    attributes.filter(a => !a.keys.includes('PK') && !a.keys.includes('FK')).forEach(a => {
+      const comment = a.comment?.toLowerCase();
+      const command = a.keys.includes('UK') ? 'key_att'
+        : comment === 'multivaluado' ? 'multivalued_att'
+        : comment === 'derivado' ? 'derived_att'
+        : comment === 'clave parcial' ? 'partial_key_att'
+        : 'att';
+      lines.push(`${command} ${toId(a.name)} -> ${id}`);
+    });
+    if (!weak.has(id) && key.length === 0 && borrowsKey(id)) {
+      warnings.push(`${id}: su clave es sólo una clave ajena.`);
+      lines.push(`// Aviso: ${warnings[warnings.length - 1]}`);
+    }
+  });
+
+  relationships.forEach(r => {
+    const rel = uniqueId(r.label || `${r.left}_${r.right}`);
+    const bothMany = r.leftEnd.many && r.rightEnd.many;
+    // La cardinalidad de cada lado es su extremo; la participación, el mínimo del otro extremo
+    const leftLabel = r.leftEnd.many ? (bothMany ? 'M' : 'N') : '1';
+    const rightLabel = r.rightEnd.many ? 'N' : '1';
+    const recursive = r.left === r.right;
+    lines.push('', `${identifying.has(r) ? 'ident_rel' : 'rel'} ${rel}`);
+    if (recursive) {
+      warnings.push(`La relación '${rel}' es recursiva: se le asignan los roles 'origen' y 'destino'.`);
+      lines.push(`// Aviso: ${warnings[warnings.length - 1]}`);
+    }
+    lines.push(
+      `link ${r.left} ${rel} "${leftLabel}"${recursive ? ' role:origen' : ''}${r.rightEnd.min > 0 ? ' [total]' : ''}`,
+      `link ${r.right} ${rel} "${rightLabel}"${recursive ? ' role:destino' : ''}${r.leftEnd.min > 0 ? ' [total]' : ''}`,
+    );
+  });
+
+  return { code: printDocument(layoutDocument(parseDocument(`${lines.join('\n')}\n`))), warnings };
+};
@@ -0,0 +1,225 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import type { EERDocument, Identifier } from './ast';
+import type { Diagnostic, LinkData, NodeData, NodeType, ParseResult, ViewData } from './types';
+import { parseDocument } from './parser';
+
+const ATTRIBUTE_TYPES: Record<string, NodeType> = {
+  simple: 'attribute',
+  key: 'key_attribute',
+  partial_key: 'partial_key_attribute',
+  derived: 'derived_attribute',
+  multivalued: 'multivalued_attribute',
+};
+
+/**
+ * MODELO: Convierte el AST en los nodos y conexiones que se dibujan.
+ * Los nodos sin coordenadas se colocan en espiral alrededor del centro.
+ */
+export const buildModel = (doc: EERDocument): ParseResult => {
+  const newNodes: NodeData[] = [];
+  const newLinks: LinkData[] = [];
+  const views: ViewData[] = [];
+  const diagnostics: Diagnostic[] = [];
+  const existingIds = new Map<string, number>(); // ID -> línea donde se definió
+  // Referencias que se resuelven al final (se permiten referencias adelantadas)
+  const pendingRefs: { ref: Identifier; resolve: (id: string) => void }[] = [];
+  const attributeOwners = new Map<string, Identifier>(); // ID de atributo -> referencia a su propietario
+
+  let angle = 0;
+  const radius = 250;
+  const center = { x: 400, y: 300 };
+
+  // Helper para posición por defecto (espiral) si no hay coords
+  const getDefaultPos = () => {
+    angle += 0.6;
+    const r = radius + (angle * 15);
+    return {
+      x: Math.round(center.x + Math.cos(angle) * r),
+      y: Math.round(center.y + Math.sin(angle) * r)
+    };
+  };
+
+  doc.lines.forEach(line => {
+    diagnostics.push(...line.diagnostics);
+    const statement = line.statement;
+    if (!statement) return;
+    const index = line.index;
+
+    switch (statement.kind) {
+      case 'entity':
+      case 'relationship':
+      case 'attribute': {
+        const label = statement.name.value;
+        const isAttribute = statement.kind === 'attribute';
+
+        // Generar ID único.
+        let id = label;
+        if (!isAttribute && existingIds.has(id)) {
+          diagnostics.push({
+            line: index + 1,
+            column: statement.name.span.column,
+            severity: 'warning',
+            message: `'${label}' ya está definido en la línea ${existingIds.get(id)! + 1}; las conexiones apuntarán a la primera definición.`,
+          });
+        }
+        if (isAttribute || existingIds.has(id)) {
+          id = `${label}_${index}`;
+        }
+        existingIds.set(id, index);
+
+        let type: NodeType;
+        if (statement.kind === 'entity') type = statement.weak ? 'weak_entity' : 'entity';
+        else if (statement.kind === 'relationship') type = statement.identifying ? 'identifying_relationship' : 'relationship';
+        else type = ATTRIBUTE_TYPES[statement.attributeKind];
+
+        const { x, y } = statement.coords ?? getDefaultPos();
+        const node: NodeData = { id, type, label, x, y, lineIndex: index };
+        newNodes.push(node);
+
+        // Atajo para atributo: att Nombre -> Entidad (o -> Entidad.Compuesto para subatributos)
+        if (statement.kind === 'attribute' && statement.owner) {
+          const link: LinkData = { source: statement.owner.value, target: id, label: '', style: 'solid', lineIndex: index };
+          newLinks.push(link);
+          attributeOwners.set(id, statement.owner);
+          pendingRefs.push({ ref: statement.owner, resolve: ownerId => { link.source = ownerId; node.owner = ownerId; } });
+        }
+        break;
+      }
+      // Especialización / Unión
+      case 'spec':
+      case 'union': {
+        const meta = statement.name?.value || (statement.kind === 'union' ? 'u' : 'd');
+
+        let id = statement.name?.value || `spec_${index}`;
+        if (existingIds.has(id)) {
+          id = `${id}_${index}`;
+        }
+        existingIds.set(id, index);
+
+        const { x, y } = statement.coords ?? getDefaultPos();
+        const total = statement.kind === 'spec' ? !statement.flags.includes('[partial]') : undefined;
+        newNodes.push({
+          id,
+          type: statement.kind === 'union' ? 'union' : 'specialization',
+          label: meta,
+          x,
+          y,
+          meta,
+          definingAttribute: statement.definingAttribute?.value,
+          total,
+          lineIndex: index
+        });
+
+        if (statement.superclass) {
+          // Conexión a la superclase (doble si la especialización es total), rotulada con el atributo definidor si lo hay
+          const link: LinkData = { source: statement.superclass.value, target: id, label: statement.definingAttribute?.value ?? '', style: total === false ? 'solid' : 'double', lineIndex: index };
+          newLinks.push(link);
+          pendingRefs.push({ ref: statement.superclass, resolve: superId => { link.source = superId; } });
+        }
+        break;
+      }
+      // Conexiones
+      case 'link': {
+        // Participación total: [total] o una restricción con mínimo 1 o más
+        const total = statement.flags.includes('[total]') || statement.flags.includes('[double]') || (statement.constraint?.min ?? 0) >= 1;
+        const link: LinkData = { source: statement.source.value, target: statement.target.value, label: statement.label ?? '', role: statement.role?.value, style: total ? 'double' : 'solid', constraint: statement.constraint, lineIndex: index };
+        newLinks.push(link);
+        pendingRefs.push(
+          { ref: statement.source, resolve: sourceId => { link.source = sourceId; } },
+          { ref: statement.target, resolve: targetId => { link.target = targetId; } },
+        );
+        break;
+      }
+      // Vistas: cada 'show' pertenece a la última 'view' anterior
+      case 'view':
+        views.push({ name: statement.name.value, lineIndex: index, nodes: [] });
+        break;
+      case 'show': {
+        const view = views[views.length - 1];
+        if (!view) {
+          diagnostics.push({ line: index + 1, column: statement.keyword.span.column, severity: 'error', message: `'show' debe ir dentro de una vista: escribe antes 'view NOMBRE'.` });
+          break;
+        }
+        const entry = { id: statement.target.value, position: statement.coords, lineIndex: index };
+        view.nodes.push(entry);
+        pendingRefs.push({ ref: statement.target, resolve: id => { entry.id = id; } });
+        break;
+      }
+    }
+  });
+
+  /**
+   * Resolución de referencias:
+   * - Un ID definido (entidad, relación, jerarquía...) se usa tal cual.
+   * - Un nombre de atributo se resuelve si es único en el diagrama.
+   * - Una ruta PROPIETARIO.Atributo[.Subatributo] selecciona el atributo de ese propietario.
+   */
+  const attributesByLabel = new Map<string, NodeData[]>();
+  newNodes.filter(n => n.type.endsWith('attribute')).forEach(n => {
+    attributesByLabel.set(n.label, [...(attributesByLabel.get(n.label) ?? []), n]);
+  });
+  const ownerCache = new Map<string, string | undefined>();
+  const resolving = new Set<string>();
+
+  const ownerOf = (attrId: string): string | undefined => {
+    if (ownerCache.has(attrId)) return ownerCache.get(attrId);
+    const ownerRef = attributeOwners.get(attrId);
+    if (!ownerRef || resolving.has(attrId)) return undefined; // Sin propietario o ciclo
+    resolving.add(attrId);
+    const owner = resolveRef(ownerRef.value).id;
+    resolving.delete(attrId);
+    ownerCache.set(attrId, owner);
+    return owner;
+  };
+
+  function resolveRef(ref: string): { id?: string; candidates: NodeData[] } {
+    if (existingIds.has(ref)) return { id: ref, candidates: [] };
+    const dot = ref.lastIndexOf('.');
+    const label = dot === -1 ? ref : ref.slice(dot + 1);
+    let candidates = attributesByLabel.get(label) ?? [];
+    if (dot !== -1) {
+      const parentId = resolveRef(ref.slice(0, dot)).id;
+      candidates = parentId ? candidates.filter(n => ownerOf(n.id) === parentId) : [];
+    }
+    return { id: candidates.length === 1 ? candidates[0].id : undefined, candidates };
+  }
+
+  pendingRefs.forEach(({ ref, resolve }) => {
+    const { id, candidates } = resolveRef(ref.value);
+    if (id) {
+      resolve(id);
+    } else if (candidates.length > 1) {
+      const options = candidates.map(n => `${ownerOf(n.id) ?? '?'}.${n.label}`).join(', ');
+      diagnostics.push({ line: ref.span.line, column: ref.span.column, severity: 'error', message: `'${ref.value}' es ambiguo: usa la ruta completa (${options}).` });
+    } else {
+      diagnostics.push({ line: ref.span.line, column: ref.span.column, severity: 'error', message: `'${ref.value}' no está definido.` });
+    }
+  });
+
+  // Las claves parciales sólo tienen sentido en entidades débiles
+  newNodes.filter(n => n.type === 'partial_key_attribute' && n.owner).forEach(n => {
+    const owner = newNodes.find(o => o.id === n.owner);
+    if (owner && owner.type !== 'weak_entity') {
+      const ownerRef = attributeOwners.get(n.id)!;
+      diagnostics.push({ line: ownerRef.span.line, column: ownerRef.span.column, severity: 'warning', message: `'${n.label}' es una clave parcial pero '${owner.label}' no es una entidad débil.` });
+    }
+  });
+
+  diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+
+  return { nodes: newNodes, links: newLinks, views, diagnostics };
+};
+
+/**
+ * PARSER: Convierte el texto a datos, extrayendo coordenadas si existen.
+ * Todo lo que no entiende lo registra en `diagnostics` en lugar de ignorarlo.
+ */
+export const parseCode = (code: string): ParseResult => buildModel(parseDocument(code));
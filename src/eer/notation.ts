@@ -0,0 +1,105 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import type { LinkData, NodeData, StructuralConstraint } from './types';
+import { formatConstraint } from './printer';
+import { isManyCardinality } from './relational';
+
+/**
+ * NOTACIONES DE DIBUJO: el mismo modelo se puede mostrar en Chen clásico
+ * (cardinalidades 1/N/M), Chen con restricciones (min,max) o pata de gallo
+ * (Crow's Foot / IE), donde las relaciones binarias pasan a ser una línea.
+ */
+export type Notation = 'chen' | 'minmax' | 'crowsfoot';
+
+export const NOTATIONS: { id: Notation; label: string }[] = [
+  { id: 'chen', label: 'Chen' },
+  { id: 'minmax', label: 'Chen (min,max)' },
+  { id: 'crowsfoot', label: "Pata de gallo (Crow's Foot)" },
+];
+
+const isEntity = (node?: NodeData) => node?.type === 'entity' || node?.type === 'weak_entity';
+const isRelationship = (node?: NodeData) => node?.type === 'relationship' || node?.type === 'identifying_relationship';
+
+/**
+ * Para cada conexión de una relación binaria, la conexión del otro participante.
+ */
+export const binaryOpposites = (nodes: NodeData[], links: LinkData[]): Map<LinkData, LinkData> => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const byRelationship = new Map<string, LinkData[]>();
+  links.forEach(link => {
+    const [rel, other] = isRelationship(byId.get(link.source)) ? [link.source, link.target] : [link.target, link.source];
+    if (!isRelationship(byId.get(rel)) || !isEntity(byId.get(other))) return;
+    byRelationship.set(rel, [...(byRelationship.get(rel) ?? []), link]);
+  });
+  const opposites = new Map<LinkData, LinkData>();
+  byRelationship.forEach(relLinks => {
+    if (relLinks.length !== 2) return;
+    opposites.set(relLinks[0], relLinks[1]);
+    opposites.set(relLinks[1], relLinks[0]);
+  });
+  return opposites;
+};
+
+/**
+ * Restricción (min,max) de una conexión: la escrita o, en una relación
+ * binaria, la que se deduce de la participación y de la cardinalidad del otro extremo.
+ */
+export const constraintOf = (link: LinkData, opposite?: LinkData): StructuralConstraint | undefined => {
+  if (link.constraint) return link.constraint;
+  if (!opposite?.label) return undefined;
+  return { min: link.style === 'double' ? 1 : 0, max: isManyCardinality(opposite.label) ? 'N' : 1 };
+};
+
+/**
+ * Texto junto a una conexión según la notación (Chen muestra la cardinalidad o el rol).
+ */
+export const linkCaption = (notation: Notation, link: LinkData, opposite?: LinkData): string | undefined => {
+  if (notation === 'chen') return link.label;
+  const constraint = constraintOf(link, opposite);
+  return constraint ? formatConstraint(constraint) : link.label;
+};
+
+// Relación binaria que la pata de gallo dibuja como una línea entre sus entidades
+export interface CollapsedRelationship {
+  relationship: NodeData;
+  ends: [NodeData, NodeData];
+  links: [LinkData, LinkData];
+}
+
+/**
+ * Relaciones binarias entre dos entidades distintas, sin atributos ni más
+ * conexiones, que se pueden dibujar sin el rombo.
+ */
+export const collapsedRelationships = (nodes: NodeData[], links: LinkData[]): Map<string, CollapsedRelationship> => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const owners = new Set(nodes.map(n => n.owner));
+  const collapsed = new Map<string, CollapsedRelationship>();
+  nodes.filter(node => isRelationship(node) && !owners.has(node.id)).forEach(relationship => {
+    const relLinks = links.filter(l => l.source === relationship.id || l.target === relationship.id);
+    if (relLinks.length !== 2) return;
+    const ends = relLinks.map(l => byId.get(l.source === relationship.id ? l.target : l.source));
+    const [a, b] = ends;
+    if (!a || !b || !isEntity(a) || !isEntity(b) || a.id === b.id) return;
+    collapsed.set(relationship.id, { relationship, ends: [a, b], links: [relLinks[0], relLinks[1]] });
+  });
+  return collapsed;
+};
+
+/**
+ * Símbolo de pata de gallo en el extremo de la entidad `links[index]`: cuántas
+ * ocurrencias suyas se asocian a cada ocurrencia de la otra entidad.
+ */
+export const crowsFootEnd = (relationship: CollapsedRelationship, index: 0 | 1): { min: number; many: boolean } => {
+  const own = relationship.links[index];
+  const other = relationship.links[1 - index];
+  const constraint = constraintOf(other, own);
+  if (constraint) return { min: constraint.min, many: constraint.max !== 1 };
+  return { min: other.style === 'double' ? 1 : 0, many: isManyCardinality(own.label) };
+};
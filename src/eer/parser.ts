@@ -0,0 +1,264 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import type { AttributeKind, Coords, EERDocument, Identifier, SourceLine, Statement, Token } from './ast';
+import type { Diagnostic, DiagnosticSeverity } from './types';
+import { parseConstraintToken, parseCoordsToken, tokenizeLine } from './lexer';
+
+export const ENTITY_COMMANDS = ['ent', 'weak_ent'];
+export const RELATIONSHIP_COMMANDS = ['rel', 'ident_rel'];
+export const ATTRIBUTE_COMMANDS: Record<string, AttributeKind> = {
+  att: 'simple',
+  key_att: 'key',
+  partial_key_att: 'partial_key',
+  derived_att: 'derived',
+  multivalued_att: 'multivalued',
+  multivalued_attribute: 'multivalued', // Nombre histórico, se mantiene por compatibilidad
+};
+export const HIERARCHY_COMMANDS = ['spec', 'union'];
+export const LINK_FLAGS = ['[total]', '[double]'];
+export const SPEC_FLAGS = ['[total]', '[partial]'];
+export const INCLUDE_COMMANDS = ['include', 'import'];
+
+const toIdentifier = (token: Token): Identifier => ({ value: token.text, span: token.span });
+
+const spanOf = (tokens: Token[]) => ({
+  line: tokens[0].span.line,
+  column: tokens[0].span.column,
+  endColumn: tokens[tokens.length - 1].span.endColumn,
+});
+
+/**
+ * PARSER de una línea: tokens -> Statement, registrando los problemas
+ * que se pueden detectar sin mirar el resto del documento.
+ */
+export const parseLine = (text: string, index: number, eol = ''): SourceLine => {
+  const { tokens, trailing } = tokenizeLine(text, index + 1);
+  const diagnostics: Diagnostic[] = [];
+  const line: SourceLine = { index, tokens, trailing, eol, statement: null, diagnostics };
+
+  const report = (severity: DiagnosticSeverity, token: Token, message: string) => {
+    diagnostics.push({ line: index + 1, column: token.span.column, severity, message });
+  };
+
+  const commentToken = tokens.find(t => t.kind === 'comment');
+  if (commentToken) line.comment = commentToken.text.slice(2);
+
+  const code = tokens.filter(t => t.kind !== 'comment');
+  if (code.length === 0) return line;
+
+  code.filter(t => t.kind === 'invalid').forEach(t => {
+    if (t.text.startsWith('(')) {
+      report('warning', t, 'Coordenadas mal formadas: se esperaba "(x, y)" con números enteros. Se usará una posición automática.');
+    } else {
+      report('error', t, `Falta el cierre de '${t.text[0]}'.`);
+    }
+  });
+
+  // Las coordenadas pueden aparecer en cualquier posición; se extraen y el resto forma el comando
+  const coordsToken = code.find(t => t.kind === 'coords');
+  const coords: Coords | undefined = coordsToken ? parseCoordsToken(coordsToken.text) : undefined;
+  const constraintToken = code.find(t => t.kind === 'constraint');
+  const parts = code.filter(t => t.kind !== 'coords' && t.kind !== 'constraint' && t.kind !== 'invalid');
+  if (parts.length === 0) return line;
+
+  const head = parts[0];
+  const command = head.text.toLowerCase();
+  const keyword = toIdentifier(head);
+  const span = spanOf(code);
+
+  const reportExtra = (from: number) => {
+    if (parts.length > from) {
+      report('warning', parts[from], `Texto inesperado '${parts.slice(from).map(t => t.text).join(' ')}' ignorado.`);
+    }
+  };
+
+  if (head.kind !== 'word') {
+    report('error', head, `Se esperaba un comando y se encontró '${head.text}'.`);
+    return line;
+  }
+
+  if (constraintToken && command !== 'link') {
+    report('warning', constraintToken, `Las restricciones (min,max) sólo se admiten en las conexiones: '${constraintToken.text}' se ignora.`);
+  }
+
+  let statement: Statement | null = null;
+
+  // Comandos de Nodos
+  if (ENTITY_COMMANDS.includes(command) || RELATIONSHIP_COMMANDS.includes(command) || command in ATTRIBUTE_COMMANDS) {
+    const nameToken = parts[1];
+    if (!nameToken || nameToken.kind !== 'word') {
+      report('error', head, `Falta el nombre después de '${head.text}'.`);
+      return line;
+    }
+    const name = toIdentifier(nameToken);
+
+    let owner: Identifier | undefined;
+    if (parts[2]?.kind === 'arrow') {
+      if (parts[3]?.kind === 'word') {
+        owner = toIdentifier(parts[3]);
+        reportExtra(4);
+      } else {
+        report('error', parts[2], "Falta el destino después de '->'.");
+      }
+    } else {
+      reportExtra(2);
+    }
+
+    if (command in ATTRIBUTE_COMMANDS) {
+      if (!owner && parts[2]?.kind !== 'arrow') {
+        report('warning', nameToken, `El atributo '${name.value}' no está conectado a ningún elemento (usa '${head.text} ${name.value} -> PROPIETARIO').`);
+      }
+      statement = { kind: 'attribute', keyword, span, attributeKind: ATTRIBUTE_COMMANDS[command], name, owner, coords };
+    } else if (ENTITY_COMMANDS.includes(command)) {
+      statement = { kind: 'entity', keyword, span, weak: command === 'weak_ent', name, coords };
+    } else {
+      statement = { kind: 'relationship', keyword, span, identifying: command === 'ident_rel', name, coords };
+    }
+  }
+  // Especialización / Unión
+  else if (HIERARCHY_COMMANDS.includes(command)) {
+    const kind = command === 'union' ? 'union' : 'spec';
+    const isOn = (i: number) => parts[i]?.kind === 'word' && parts[i].text.toLowerCase() === 'on' && parts[i + 1]?.kind === 'word';
+    const name = parts[1]?.kind === 'word' && !isOn(1) ? toIdentifier(parts[1]) : undefined;
+    let arrowAt = name ? 2 : 1;
+    let superclass: Identifier | undefined;
+    const flags: string[] = [];
+
+    // Especialización definida por atributo: spec d on Tipo -> EMPLEADO
+    let definingAttribute: Identifier | undefined;
+    if (isOn(arrowAt)) {
+      if (kind === 'union') {
+        report('warning', parts[arrowAt], "'on ATRIBUTO' sólo se admite en especializaciones (spec); se ignora en la unión.");
+      } else {
+        definingAttribute = toIdentifier(parts[arrowAt + 1]);
+      }
+      arrowAt += 2;
+    } else if (parts[arrowAt]?.kind === 'word' && parts[arrowAt].text.toLowerCase() === 'on') {
+      report('error', parts[arrowAt], "Falta el atributo después de 'on' (spec d on ATRIBUTO -> SUPERCLASE).");
+      arrowAt += 1;
+    }
+
+    if (parts[arrowAt]?.kind === 'arrow') {
+      if (parts[arrowAt + 1]?.kind === 'word') {
+        superclass = toIdentifier(parts[arrowAt + 1]);
+        // Participación de la superclase: spec d -> EMPLEADO [partial]
+        let next = arrowAt + 2;
+        while (kind === 'spec' && parts[next]?.kind === 'flag') {
+          if (!SPEC_FLAGS.includes(parts[next].text)) {
+            report('warning', parts[next], `Modificador desconocido '${parts[next].text}' (se admiten ${SPEC_FLAGS.join(', ')}).`);
+          }
+          flags.push(parts[next].text);
+          next++;
+        }
+        reportExtra(next);
+      } else {
+        report('error', parts[arrowAt], "Falta la superclase después de '->'.");
+      }
+    } else {
+      reportExtra(arrowAt);
+      if (kind === 'spec') {
+        const meta = name?.value ?? 'd';
+        report('warning', head, `La especialización '${meta}' no tiene superclase (usa 'spec ${meta} -> SUPERCLASE').`);
+      }
+    }
+    statement = { kind, keyword, span, name, definingAttribute, superclass, flags, coords };
+  }
+  // Conexiones
+  else if (command === 'link') {
+    const [, source, target] = parts;
+    if (!source || !target || source.kind !== 'word' || target.kind !== 'word') {
+      report('error', head, "'link' necesita dos elementos: link ORIGEN DESTINO \"CARDINALIDAD\".");
+      return line;
+    }
+
+    let label: string | undefined;
+    let role: Identifier | undefined;
+    const flags: string[] = [];
+    parts.slice(3).forEach(part => {
+      if (part.kind === 'string' && label === undefined) {
+        label = part.text.slice(1, -1);
+      } else if (part.kind === 'word' && /^role:/i.test(part.text) && !role) {
+        const value = part.text.slice('role:'.length);
+        if (value) {
+          role = { value, span: part.span };
+        } else {
+          report('warning', part, "Falta el nombre del rol después de 'role:' (por ejemplo, role:supervisor).");
+        }
+      } else if (part.kind === 'flag') {
+        if (!LINK_FLAGS.includes(part.text)) {
+          report('warning', part, `Modificador desconocido '${part.text}' (se admiten ${LINK_FLAGS.join(', ')}).`);
+        }
+        flags.push(part.text);
+      } else {
+        report('warning', part, `Texto inesperado '${part.text}' ignorado.`);
+      }
+    });
+    // En una conexión, "(min,max)" es la restricción estructural (con dos números, el lexer lo lee como coordenadas)
+    const minMaxToken = constraintToken ?? coordsToken;
+    const constraint = minMaxToken ? parseConstraintToken(minMaxToken.text) : undefined;
+    if (minMaxToken && constraint && (constraint.min < 0 || (typeof constraint.max === 'number' && (constraint.max < constraint.min || constraint.max === 0)))) {
+      report('warning', minMaxToken, `Restricción '${minMaxToken.text}' no válida: se espera (min,max) con 0 ≤ min ≤ max, max ≥ 1 (o N).`);
+    }
+
+    statement = { kind: 'link', keyword, span, source: toIdentifier(source), target: toIdentifier(target), label, role, constraint, flags };
+  }
+  // Otros archivos
+  else if (INCLUDE_COMMANDS.includes(command)) {
+    const pathToken = parts[1];
+    if (pathToken?.kind !== 'string' || pathToken.text.length <= 2) {
+      report('error', head, `'${head.text}' necesita la ruta del archivo entre comillas: ${command} "otro.eer".`);
+      return line;
+    }
+    reportExtra(2);
+    statement = { kind: 'include', keyword, span, path: { value: pathToken.text.slice(1, -1), span: pathToken.span } };
+  }
+  // Vistas: 'view NOMBRE' abre la sección y cada 'show ELEMENTO (x, y)' coloca un elemento en ella
+  else if (command === 'view') {
+    const nameToken = parts[1];
+    if (nameToken?.kind !== 'word') {
+      report('error', head, "Falta el nombre de la vista: view NOMBRE.");
+      return line;
+    }
+    reportExtra(2);
+    statement = { kind: 'view', keyword, span, name: toIdentifier(nameToken) };
+  }
+  else if (command === 'show') {
+    const target = parts[1];
+    if (target?.kind !== 'word') {
+      report('error', head, "'show' necesita el elemento que se muestra: show ELEMENTO (x, y).");
+      return line;
+    }
+    reportExtra(2);
+    statement = { kind: 'show', keyword, span, target: toIdentifier(target), coords };
+  }
+  else {
+    report('error', head, `Comando desconocido '${head.text}'.`);
+  }
+
+  line.statement = statement;
+  return line;
+};
+
+/**
+ * PARSER: Convierte el texto completo en un documento (AST sin pérdidas)
+ */
+export const parseDocument = (code: string): EERDocument => {
+  const lines: SourceLine[] = [];
+  const re = /\r?\n/g;
+  let start = 0;
+  let index = 0;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(code)) !== null) {
+    lines.push(parseLine(code.slice(start, match.index), index++, match[0]));
+    start = match.index + match[0].length;
+  }
+  lines.push(parseLine(code.slice(start), index, ''));
+  return { lines };
+};
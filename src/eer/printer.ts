@@ -0,0 +1,66 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import type { Coords, EERDocument, SourceLine, Statement } from './ast';
+import type { StructuralConstraint } from './types';
+
+/**
+ * PRINTER: Regenera el texto a partir del AST.
+ * `printDocument(parseDocument(code)) === code` para cualquier entrada.
+ */
+export const printLineText = (line: SourceLine) =>
+  line.tokens.map(t => t.leading + t.text).join('') + line.trailing;
+
+export const printLine = (line: SourceLine) => printLineText(line) + line.eol;
+
+export const printDocument = (doc: EERDocument) => doc.lines.map(printLine).join('');
+
+export const formatCoords = (coords: Coords) => `(${Math.round(coords.x)}, ${Math.round(coords.y)})`;
+
+export const formatConstraint = (constraint: StructuralConstraint) => `(${constraint.min},${constraint.max})`;
+
+const withCoords = (text: string, coords?: Coords) => (coords ? `${text} ${formatCoords(coords)}` : text);
+
+/**
+ * Formato canónico de una sentencia, para generar líneas nuevas
+ * (no se usa al reimprimir líneas existentes, que conservan su formato).
+ */
+export const formatStatement = (statement: Statement): string => {
+  const keyword = statement.keyword.value;
+  switch (statement.kind) {
+    case 'entity':
+    case 'relationship':
+      return withCoords(`${keyword} ${statement.name.value}`, statement.coords);
+    case 'attribute': {
+      const owner = statement.owner ? ` -> ${statement.owner.value}` : '';
+      return withCoords(`${keyword} ${statement.name.value}${owner}`, statement.coords);
+    }
+    case 'spec':
+    case 'union': {
+      const name = statement.name ? ` ${statement.name.value}` : '';
+      const defining = statement.definingAttribute ? ` on ${statement.definingAttribute.value}` : '';
+      const superclass = statement.superclass ? ` -> ${statement.superclass.value}` : '';
+      const flags = statement.flags.map(f => ` ${f}`).join('');
+      return withCoords(`${keyword}${name}${defining}${superclass}${flags}`, statement.coords);
+    }
+    case 'link': {
+      const label = statement.label !== undefined ? ` "${statement.label}"` : '';
+      const role = statement.role ? ` role:${statement.role.value}` : '';
+      const constraint = statement.constraint ? ` ${formatConstraint(statement.constraint)}` : '';
+      const flags = statement.flags.map(f => ` ${f}`).join('');
+      return `${keyword} ${statement.source.value} ${statement.target.value}${label}${role}${constraint}${flags}`;
+    }
+    case 'include':
+      return `${keyword} "${statement.path.value}"`;
+    case 'view':
+      return `${keyword} ${statement.name.value}`;
+    case 'show':
+      return withCoords(`${keyword} ${statement.target.value}`, statement.coords);
+  }
+};
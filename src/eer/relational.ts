@@ -0,0 +1,506 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import type { LinkData, NodeData, StructuralConstraint } from './types';
+
+/**
+ * PASO A TABLAS: algoritmo de transformación EER -> relacional en 9 pasos
+ * (Elmasri & Navathe): 1 entidades fuertes, 2 débiles, 3 relaciones 1:1,
+ * 4 relaciones 1:N, 5 relaciones M:N, 6 atributos multivaluados,
+ * 7 relaciones n-arias, 8 especializaciones y 9 categorías (uniones).
+ */
+
+// Alternativas del paso 8 para especializaciones
+export type SpecializationStrategy = '8A' | '8B' | '8C' | '8D';
+
+export const SPECIALIZATION_STRATEGIES: Record<SpecializationStrategy, string> = {
+  '8A': 'Tablas para la superclase y cada subclase',
+  '8B': 'Sólo tablas para las subclases',
+  '8C': 'Una tabla con atributo de tipo',
+  '8D': 'Una tabla con indicadores booleanos',
+};
+
+export interface MappingOptions {
+  defaultSpecialization?: SpecializationStrategy;
+  specialization?: Record<string, SpecializationStrategy>; // ID del nodo spec -> estrategia
+}
+
+// Columnas que no proceden de un atributo del diagrama
+export type ColumnKind = 'surrogate' | 'flag' | 'discriminator';
+
+export interface RelationalColumn {
+  name: string;
+  nullable: boolean;
+  source?: string; // ID del nodo atributo del que procede
+  kind?: ColumnKind;
+}
+
+export interface ForeignKey {
+  columns: string[];
+  table: string;
+  referencedColumns: string[];
+  onDelete?: 'cascade';
+}
+
+export interface RelationalTable {
+  name: string;
+  columns: RelationalColumn[];
+  primaryKey: string[];
+  foreignKeys: ForeignKey[];
+  unique: string[][];
+  source: string; // ID del nodo (entidad, relación o atributo) que origina la tabla
+}
+
+export interface MappingNote {
+  step: string; // '1'...'9', '8A'...
+  message: string;
+  nodeId?: string;
+}
+
+export interface RelationalSchema {
+  tables: RelationalTable[];
+  notes: MappingNote[];
+}
+
+interface Participant {
+  node: NodeData;
+  role?: string;
+  cardinality: string;
+  constraint?: StructuralConstraint;
+  many: boolean;
+  total: boolean;
+}
+
+// Dónde viven las filas de una entidad y qué columnas la identifican
+interface EntityMapping {
+  table?: RelationalTable;
+  key: string[];
+}
+
+const isEntity = (n?: NodeData) => !!n && (n.type === 'entity' || n.type === 'weak_entity');
+const isRelationship = (n?: NodeData) => !!n && (n.type === 'relationship' || n.type === 'identifying_relationship');
+const isAttribute = (n?: NodeData) => !!n && n.type.endsWith('attribute');
+
+// Cardinalidad "1" frente a "N"/"M" (cualquier otra etiqueta se trata como muchos)
+export const isManyCardinality = (label?: string) => (label ?? '').trim() !== '1';
+
+export const mapToRelational = (nodes: NodeData[], links: LinkData[], options: MappingOptions = {}): RelationalSchema => {
+  const tables: RelationalTable[] = [];
+  const notes: MappingNote[] = [];
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const mappings = new Map<string, EntityMapping>();
+  const building = new Set<string>();
+
+  const note = (step: string, message: string, nodeId?: string) => notes.push({ step, message, nodeId });
+  const attributesOf = (ownerId: string) => nodes.filter(n => isAttribute(n) && n.owner === ownerId);
+
+  // Un atributo compuesto se sustituye por sus componentes simples
+  const leavesOf = (attr: NodeData): NodeData[] => {
+    const children = attributesOf(attr.id).filter(c => c.type !== 'derived_attribute');
+    return children.length ? children.flatMap(leavesOf) : [attr];
+  };
+
+  const uniqueName = (table: RelationalTable, name: string) => {
+    let candidate = name;
+    let i = 2;
+    while (table.columns.some(c => c.name === candidate)) candidate = `${name}${i++}`;
+    return candidate;
+  };
+
+  const addColumn = (table: RelationalTable, name: string, nullable: boolean, source?: string, kind?: ColumnKind) => {
+    const column: RelationalColumn = { name: uniqueName(table, name), nullable, source, kind };
+    table.columns.push(column);
+    return column.name;
+  };
+
+  const newTable = (name: string, source: string): RelationalTable => {
+    let tableName = name;
+    let i = 2;
+    while (tables.some(t => t.name === tableName)) tableName = `${name}${i++}`;
+    const table: RelationalTable = { name: tableName, columns: [], primaryKey: [], foreignKeys: [], unique: [], source };
+    tables.push(table);
+    return table;
+  };
+
+  // Añade a `table` las columnas de la clave de `target` y la clave ajena correspondiente
+  const addForeignKey = (
+    table: RelationalTable,
+    target: EntityMapping,
+    { nullable, onDelete, prefix }: { nullable: boolean; onDelete?: 'cascade'; prefix?: string }
+  ) => {
+    const ref = target.table!;
+    const columns = target.key.map(col => addColumn(table, prefix || !col.includes(ref.name) ? `${col}_${prefix ?? ref.name}` : col, nullable));
+    table.foreignKeys.push({ columns, table: ref.name, referencedColumns: target.key, onDelete });
+    return columns;
+  };
+
+  // Atributos simples (y componentes de compuestos) de un propietario como columnas
+  const addAttributeColumns = (table: RelationalTable, ownerId: string, nullable = true) => {
+    attributesOf(ownerId).forEach(attr => {
+      if (attr.type === 'derived_attribute') {
+        note('1', `'${attr.label}' es derivado: no se almacena en ${table.name}.`, attr.id);
+      } else if (attr.type !== 'multivalued_attribute') {
+        leavesOf(attr).forEach(leaf => addColumn(table, leaf.label, nullable && leaf.type === 'attribute', leaf.id));
+      }
+    });
+  };
+
+  // Conexiones de una relación con entidades (descarta las de atributos)
+  const participantsOf = (rel: NodeData): Participant[] => {
+    const connections = links.flatMap(l => {
+      const otherId = l.source === rel.id ? l.target : l.target === rel.id ? l.source : null;
+      const other = otherId ? byId.get(otherId) : undefined;
+      return other && isEntity(other) ? [{ link: l, node: other }] : [];
+    });
+    return connections.map(({ link, node }, i) => {
+      let cardinality = (link.label ?? '').trim();
+      // Sin cardinalidad escrita, en una relación binaria se deduce del máximo (min,max) del otro extremo
+      const opposite = connections.length === 2 ? connections[1 - i].link : undefined;
+      if (!cardinality && opposite?.constraint) cardinality = opposite.constraint.max === 1 ? '1' : 'N';
+      return { node, role: link.role, cardinality, constraint: link.constraint, many: isManyCardinality(cardinality), total: link.style === 'double' };
+    });
+  };
+
+  // Jerarquías: superclase de cada subclase
+  const hierarchies = nodes.filter(n => n.type === 'specialization').map(spec => {
+    const superLink = links.find(l => l.target === spec.id && l.lineIndex === spec.lineIndex);
+    const superclass = superLink ? byId.get(superLink.source) : undefined;
+    const subclasses = links
+      .filter(l => l !== superLink && (l.source === spec.id || l.target === spec.id))
+      .map(l => byId.get(l.source === spec.id ? l.target : l.source))
+      .filter(isEntity) as NodeData[];
+    const strategy = options.specialization?.[spec.id] ?? options.defaultSpecialization ?? '8A';
+    return { spec, superclass: isEntity(superclass) ? superclass : undefined, subclasses, strategy, total: spec.total !== false };
+  });
+  const parentHierarchy = new Map<string, (typeof hierarchies)[number]>();
+  hierarchies.forEach(h => h.subclasses.forEach(sub => {
+    if (parentHierarchy.has(sub.id)) {
+      note('8', `'${sub.label}' es subclase de varias jerarquías: sólo se usa la primera (herencia múltiple).`, sub.id);
+    } else if (h.superclass) {
+      parentHierarchy.set(sub.id, h);
+    }
+  }));
+
+  // Categorías (uniones): superclases y entidad categoría
+  const categories = nodes.filter(n => n.type === 'union').map(union => ({
+    union,
+    superclasses: links.filter(l => l.target === union.id).map(l => byId.get(l.source)).filter(isEntity) as NodeData[],
+    category: links.filter(l => l.source === union.id).map(l => byId.get(l.target)).find(isEntity),
+  }));
+
+  const ownPrimaryKey = (entity: NodeData, table: RelationalTable, keyTypes: string[]) => {
+    const keys = attributesOf(entity.id).filter(a => keyTypes.includes(a.type));
+    keys.forEach((key, i) => {
+      const columns = leavesOf(key).map(leaf => table.columns.find(c => c.source === leaf.id)?.name ?? leaf.label);
+      if (i === 0) {
+        table.primaryKey.push(...columns);
+        table.columns.filter(c => columns.includes(c.name)).forEach(c => { c.nullable = false; });
+      } else {
+        table.unique.push(columns);
+        note('1', `'${entity.label}' tiene varias claves: '${key.label}' se mantiene como clave alternativa (UNIQUE).`, key.id);
+      }
+    });
+    return keys.length > 0;
+  };
+
+  const addSurrogateKey = (entity: NodeData, table: RelationalTable, step: string) => {
+    const column = addColumn(table, `id_${entity.label}`, false, undefined, 'surrogate');
+    table.primaryKey.push(column);
+    note(step, `'${entity.label}' no tiene atributo clave: se añade la clave artificial '${column}'.`, entity.id);
+  };
+
+  const mapEntity = (id: string): EntityMapping => {
+    const cached = mappings.get(id);
+    if (cached) return cached;
+    const entity = byId.get(id)!;
+    if (building.has(id)) {
+      note('2', `Dependencia circular al identificar '${entity.label}'.`, id);
+      return { key: [] };
+    }
+    building.add(id);
+    const mapping = buildEntity(entity);
+    building.delete(id);
+    mappings.set(id, mapping);
+    return mapping;
+  };
+
+  const buildEntity = (entity: NodeData): EntityMapping => {
+    // Paso 8: subclase de una especialización
+    const hierarchy = parentHierarchy.get(entity.id);
+    if (hierarchy) {
+      const parent = mapEntity(hierarchy.superclass!.id);
+      switch (hierarchy.strategy) {
+        case '8C':
+        case '8D': {
+          const table = parent.table!;
+          if (hierarchy.strategy === '8D') {
+            addColumn(table, `Es_${entity.label}`, false, undefined, 'flag');
+          }
+          addAttributeColumns(table, entity.id);
+          note(hierarchy.strategy, `Los atributos de '${entity.label}' se añaden (opcionales) a la tabla ${table.name}.`, entity.id);
+          return parent;
+        }
+        case '8B': {
+          const table = newTable(entity.label, entity.id);
+          const superclass = hierarchy.superclass!;
+          const superTable = parent.table;
+          if (superTable) {
+            table.columns.push(...superTable.columns.map(c => ({ ...c })));
+            table.primaryKey.push(...superTable.primaryKey);
+            table.foreignKeys.push(...superTable.foreignKeys.map(fk => ({ ...fk, columns: [...fk.columns] })));
+          }
+          addAttributeColumns(table, entity.id);
+          note('8B', `${table.name} incluye los atributos heredados de '${superclass.label}'.`, entity.id);
+          return { table, key: table.primaryKey };
+        }
+        default: {
+          const table = newTable(entity.label, entity.id);
+          const columns = parent.table ? parent.key.map(col => addColumn(table, col, false)) : [];
+          if (parent.table) {
+            table.foreignKeys.push({ columns, table: parent.table.name, referencedColumns: parent.key, onDelete: 'cascade' });
+          }
+          table.primaryKey.push(...columns);
+          addAttributeColumns(table, entity.id);
+          note('8A', `${table.name} usa la clave de ${parent.table?.name ?? hierarchy.superclass!.label} como clave primaria y ajena.`, entity.id);
+          return { table, key: table.primaryKey };
+        }
+      }
+    }
+
+    // Paso 9: entidad categoría de una unión
+    const category = categories.find(c => c.category?.id === entity.id);
+    if (category) {
+      const supers = category.superclasses.map(s => ({ node: s, mapping: mapEntity(s.id) }));
+      const table = newTable(entity.label, entity.id);
+      const keys = supers.map(s => s.mapping.key.join(','));
+      if (supers.length > 0 && keys.every(k => k === keys[0]) && supers[0].mapping.table) {
+        supers[0].mapping.key.forEach(col => addColumn(table, col, false));
+        table.primaryKey.push(...supers[0].mapping.key);
+        note('9', `Las superclases de '${entity.label}' comparten clave (${keys[0]}): se usa como clave de ${table.name}.`, entity.id);
+      } else {
+        const surrogate = addColumn(table, `id_${entity.label}`, false, undefined, 'surrogate');
+        table.primaryKey.push(surrogate);
+        supers.forEach(s => {
+          const superTable = s.mapping.table;
+          if (!superTable) return;
+          const fk = addColumn(superTable, surrogate, true);
+          superTable.foreignKeys.push({ columns: [fk], table: table.name, referencedColumns: [surrogate] });
+          superTable.unique.push([fk]);
+        });
+        note('9', `Categoría '${entity.label}': clave sustituta '${surrogate}', añadida como clave ajena en ${supers.map(s => s.node.label).join(', ')}.`, entity.id);
+      }
+      addAttributeColumns(table, entity.id);
+      return { table, key: table.primaryKey };
+    }
+
+    // Paso 2: entidad débil, identificada por su propietaria
+    if (entity.type === 'weak_entity') {
+      const identifying = nodes
+        .filter(n => n.type === 'identifying_relationship')
+        .map(rel => ({ rel, participants: participantsOf(rel) }))
+        .filter(r => r.participants.some(p => p.node.id === entity.id));
+      const owners = identifying.flatMap(r => r.participants.filter(p => p.node.id !== entity.id).map(p => p.node));
+      if (owners.length === 0) {
+        note('2', `La entidad débil '${entity.label}' no tiene relación identificativa: se trata como fuerte.`, entity.id);
+      } else {
+        const ownerMappings = owners.map(o => mapEntity(o.id));
+        const table = newTable(entity.label, entity.id);
+        ownerMappings.forEach(owner => {
+          if (owner.table) table.primaryKey.push(...addForeignKey(table, owner, { nullable: false, onDelete: 'cascade' }));
+        });
+        addAttributeColumns(table, entity.id);
+        identifying.forEach(r => addAttributeColumns(table, r.rel.id));
+        if (!ownPrimaryKey(entity, table, ['partial_key_attribute', 'key_attribute'])) {
+          note('2', `'${entity.label}' no tiene clave parcial: la clave es sólo la de su propietaria.`, entity.id);
+        }
+        note('2', `${table.name}: clave primaria (${table.primaryKey.join(', ')}) = clave de ${owners.map(o => o.label).join(', ')} + clave parcial; borrado en cascada.`, entity.id);
+        return { table, key: table.primaryKey };
+      }
+    }
+
+    // Paso 1: entidad fuerte
+    const table = newTable(entity.label, entity.id);
+    addAttributeColumns(table, entity.id);
+    if (!ownPrimaryKey(entity, table, ['key_attribute', 'partial_key_attribute'])) {
+      addSurrogateKey(entity, table, '1');
+    }
+    note('1', `${table.name}: tabla para la entidad '${entity.label}' con clave primaria (${table.primaryKey.join(', ')}).`, entity.id);
+
+    // Paso 8: alternativas que afectan a la propia superclase
+    hierarchies.filter(h => h.superclass?.id === entity.id).forEach(h => {
+      if (h.strategy === '8C') {
+        // En una especialización definida por atributo (spec d on Tipo), ese atributo ya es el discriminante
+        const defining = table.columns.find(c => c.name === h.spec.definingAttribute);
+        const tipo = defining?.name ?? addColumn(table, h.spec.definingAttribute ?? `Tipo_${table.name}`, !h.total, undefined, 'discriminator');
+        note('8C', `Jerarquía '${h.spec.label}' de ${table.name}: ${defining ? 'atributo definidor' : 'atributo discriminante'} '${tipo}' (${h.subclasses.map(s => s.label).join(', ')}).`, h.spec.id);
+        if (h.spec.meta === 'o') note('8C', `La especialización '${h.spec.label}' es solapada: 8C sólo admite un tipo por fila, es preferible 8D.`, h.spec.id);
+      } else if (h.strategy === '8D') {
+        note('8D', `Jerarquía '${h.spec.label}' de ${table.name}: un indicador booleano por subclase.`, h.spec.id);
+      } else if (h.strategy === '8B') {
+        if (!h.total) note('8B', `La especialización '${h.spec.label}' es parcial: 8B perdería las filas que no pertenecen a ninguna subclase.`, h.spec.id);
+        if (h.spec.meta === 'o') note('8B', `La especialización '${h.spec.label}' es solapada: 8B duplica los datos heredados.`, h.spec.id);
+      }
+    });
+
+    return { table, key: table.primaryKey };
+  };
+
+  // Pasos 1, 2, 8 y 9: entidades en orden de definición (las dependencias se crean antes)
+  nodes.filter(isEntity).forEach(e => mapEntity(e.id));
+
+  // 8B: la superclase no tiene tabla propia
+  hierarchies.filter(h => h.strategy === '8B' && h.superclass).forEach(h => {
+    const mapping = mappings.get(h.superclass!.id);
+    if (!mapping?.table) return;
+    tables.splice(tables.indexOf(mapping.table), 1);
+    note('8B', `'${h.superclass!.label}' no tiene tabla propia: sus filas están en ${h.subclasses.map(s => s.label).join(', ')}.`, h.superclass!.id);
+    mappings.set(h.superclass!.id, { key: mapping.key });
+    tables.forEach(t => {
+      t.foreignKeys = t.foreignKeys.filter(fk => {
+        if (fk.table !== mapping.table!.name) return true;
+        note('8B', `${t.name} no puede referenciar a '${h.superclass!.label}' (sin tabla propia): se elimina la clave ajena ${fk.columns.join(', ')}.`, t.source);
+        return false;
+      });
+    });
+  });
+
+  const tableFor = (p: Participant, rel: NodeData, step: string) => {
+    const mapping = mappings.get(p.node.id);
+    if (!mapping?.table) {
+      note(step, `'${p.node.label}' no tiene tabla propia: no se puede crear la clave ajena de '${rel.label}'.`, rel.id);
+      return undefined;
+    }
+    return mapping;
+  };
+
+  // Pasos 3, 4, 5 y 7: relaciones
+  const relationshipTables = new Map<string, RelationalTable>();
+  nodes.filter(n => n.type === 'relationship').forEach(rel => {
+    const participants = participantsOf(rel);
+    participants.filter(p => !p.cardinality && !p.constraint).forEach(p => {
+      note('3', `La conexión de '${p.node.label}' con '${rel.label}' no tiene cardinalidad: se asume N.`, rel.id);
+    });
+
+    if (participants.length < 2) {
+      note('3', `La relación '${rel.label}' tiene menos de dos participantes: se omite.`, rel.id);
+      return;
+    }
+
+    // En una relación recursiva, las columnas de la entidad repetida se distinguen por su rol
+    const prefixOf = (p: Participant) => participants.filter(q => q.node.id === p.node.id).length > 1 ? p.role : undefined;
+
+    if (participants.length > 2) {
+      const table = newTable(rel.label, rel.id);
+      const columnsOf = new Map<Participant, string[]>();
+      participants.forEach(p => {
+        const target = tableFor(p, rel, '7');
+        if (target) columnsOf.set(p, addForeignKey(table, target, { nullable: false, onDelete: 'cascade', prefix: prefixOf(p) }));
+      });
+      const fks = (keyOf: (p: Participant) => boolean) => participants.filter(keyOf).flatMap(p => columnsOf.get(p) ?? []);
+      // Con (min,max), un participante con máximo 1 aparece en una sola tupla: su clave identifica la relación.
+      // Con "1", el participante queda determinado por los demás: cada "1" da una clave con todos menos él
+      const single = participants.filter(p => p.constraint?.max === 1);
+      const ones = participants.filter(p => !p.many && !p.constraint);
+      const keys = single.length > 0
+        ? single.map(p => fks(q => q === p))
+        : ones.length > 0
+          ? ones.map(one => fks(q => q !== one))
+          : [fks(() => true)];
+      table.primaryKey.push(...keys[0]);
+      table.unique.push(...keys.slice(1));
+      addAttributeColumns(table, rel.id);
+      relationshipTables.set(rel.id, table);
+      note('7', `${table.name}: relación de grado ${participants.length}, ${
+        single.length > 0
+          ? `clave primaria formada por la clave ajena de '${single[0].node.label}', que participa como máximo una vez`
+          : ones.length > 0
+            ? `clave primaria formada por las claves ajenas de todos los participantes salvo '${ones[0].node.label}' (cardinalidad 1)`
+            : 'clave primaria formada por las claves ajenas de todos los participantes (cardinalidad N/M)'
+      }${keys.length > 1 ? `; el resto de claves candidatas como UNIQUE` : ''}.`, rel.id);
+      return;
+    }
+
+    const [a, b] = participants;
+    if (a.many && b.many) {
+      const table = newTable(rel.label, rel.id);
+      [a, b].forEach(p => {
+        const target = tableFor(p, rel, '5');
+        if (target) table.primaryKey.push(...addForeignKey(table, target, { nullable: false, onDelete: 'cascade', prefix: prefixOf(p) }));
+      });
+      addAttributeColumns(table, rel.id);
+      relationshipTables.set(rel.id, table);
+      note('5', `${table.name}: relación M:N entre '${a.node.label}' y '${b.node.label}' como tabla propia.`, rel.id);
+      return;
+    }
+
+    // 1:N -> la clave ajena va en el lado N; 1:1 -> en el lado con participación total
+    const oneToOne = !a.many && !b.many;
+    const [holder, referenced] = oneToOne
+      ? (b.total && !a.total ? [b, a] : [a, b])
+      : (a.many ? [a, b] : [b, a]);
+    const holderTable = tableFor(holder, rel, oneToOne ? '3' : '4');
+    const referencedTable = tableFor(referenced, rel, oneToOne ? '3' : '4');
+    if (!holderTable || !referencedTable) return;
+    const prefix = holder.node.id === referenced.node.id ? referenced.role ?? rel.label : undefined;
+    const columns = addForeignKey(holderTable.table!, referencedTable, { nullable: !holder.total, prefix });
+    if (oneToOne) holderTable.table!.unique.push(columns);
+    addAttributeColumns(holderTable.table!, rel.id);
+    note(
+      oneToOne ? '3' : '4',
+      oneToOne
+        ? `'${rel.label}' (1:1): clave ajena única en ${holderTable.table!.name} hacia ${referencedTable.table!.name}${holder.total ? ' (participación total, NOT NULL)' : ''}.`
+        : `'${rel.label}' (1:N): clave ajena en ${holderTable.table!.name} (lado N) hacia ${referencedTable.table!.name}${holder.total ? ', obligatoria por participación total' : ''}.`,
+      rel.id
+    );
+  });
+
+  // Paso 6: atributos multivaluados
+  nodes.filter(n => n.type === 'multivalued_attribute' && n.owner).forEach(attr => {
+    const owner = byId.get(attr.owner!);
+    const ownerMapping: EntityMapping | undefined = owner && isEntity(owner)
+      ? mappings.get(owner.id)
+      : owner && isRelationship(owner) && relationshipTables.has(owner.id)
+        ? { table: relationshipTables.get(owner.id), key: relationshipTables.get(owner.id)!.primaryKey }
+        : undefined;
+    if (!ownerMapping?.table) {
+      note('6', `No se puede crear la tabla del atributo multivaluado '${attr.label}': su propietario no tiene tabla.`, attr.id);
+      return;
+    }
+    const table = newTable(`${ownerMapping.table.name}_${attr.label}`, attr.id);
+    table.primaryKey.push(...addForeignKey(table, ownerMapping, { nullable: false, onDelete: 'cascade' }));
+    leavesOf(attr).forEach(leaf => table.primaryKey.push(addColumn(table, leaf.label, false, leaf.id)));
+    note('6', `${table.name}: tabla para el atributo multivaluado '${attr.label}' de ${ownerMapping.table.name}.`, attr.id);
+  });
+
+  return { tables, notes };
+};
+
+/**
+ * Representación textual del esquema, al estilo de los apuntes:
+ * TABLA(Clave, Atributo, ...) seguida de sus claves ajenas.
+ */
+export const formatRelationalSchema = (schema: RelationalSchema) => {
+  const lines: string[] = [];
+  schema.tables.forEach(table => {
+    lines.push(`${table.name}(${table.columns.map(c => (table.primaryKey.includes(c.name) ? `*${c.name}*` : c.name)).join(', ')})`);
+    lines.push(`  PK: ${table.primaryKey.join(', ') || '-'}`);
+    table.foreignKeys.forEach(fk => {
+      lines.push(`  FK: ${fk.columns.join(', ')} -> ${fk.table}(${fk.referencedColumns.join(', ')})${fk.onDelete ? ' ON DELETE CASCADE' : ''}`);
+    });
+    table.unique.forEach(u => lines.push(`  UNIQUE: ${u.join(', ')}`));
+    const notNull = table.columns.filter(c => !c.nullable && !table.primaryKey.includes(c.name));
+    if (notNull.length) lines.push(`  NOT NULL: ${notNull.map(c => c.name).join(', ')}`);
+    lines.push('');
+  });
+  if (schema.notes.length) {
+    lines.push('Decisiones de transformación:');
+    schema.notes.forEach(n => lines.push(`  [Paso ${n.step}] ${n.message}`));
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,142 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import type { ForeignKey, RelationalColumn, RelationalSchema, RelationalTable } from './relational';
+
+/**
+ * SQL DDL: genera sentencias CREATE TABLE a partir del esquema relacional.
+ * El diagrama no tiene tipos de datos, así que se usa un tipo de texto por
+ * defecto salvo en claves artificiales, indicadores y claves ajenas (que
+ * heredan el tipo de la columna referenciada).
+ */
+export type SqlDialect = 'postgresql' | 'mysql' | 'sqlite';
+
+export const SQL_DIALECTS: Record<SqlDialect, string> = {
+  postgresql: 'PostgreSQL',
+  mysql: 'MySQL',
+  sqlite: 'SQLite',
+};
+
+interface DialectSpec {
+  quote: (name: string) => string;
+  text: string;
+  integer: string;
+  boolean: string;
+  identity: string; // Sufijo para claves artificiales autoincrementales
+  tableSuffix: string;
+  preamble: string[];
+  alterForeignKeys: boolean; // false: SQLite no admite ALTER TABLE ... ADD CONSTRAINT
+}
+
+const DIALECTS: Record<SqlDialect, DialectSpec> = {
+  postgresql: {
+    quote: name => `"${name.replace(/"/g, '""')}"`,
+    text: 'VARCHAR(255)',
+    integer: 'INTEGER',
+    boolean: 'BOOLEAN',
+    identity: ' GENERATED BY DEFAULT AS IDENTITY',
+    tableSuffix: '',
+    preamble: [],
+    alterForeignKeys: true,
+  },
+  mysql: {
+    quote: name => `\`${name.replace(/`/g, '``')}\``,
+    text: 'VARCHAR(255)',
+    integer: 'INT',
+    boolean: 'BOOLEAN',
+    identity: ' AUTO_INCREMENT',
+    tableSuffix: ' ENGINE=InnoDB',
+    preamble: [],
+    alterForeignKeys: true,
+  },
+  sqlite: {
+    quote: name => `"${name.replace(/"/g, '""')}"`,
+    text: 'TEXT',
+    integer: 'INTEGER',
+    boolean: 'INTEGER',
+    identity: '', // INTEGER PRIMARY KEY ya es un alias autoincremental de rowid
+    tableSuffix: '',
+    preamble: ['PRAGMA foreign_keys = ON;', ''],
+    alterForeignKeys: false,
+  },
+};
+
+const RESERVED = new Set(['user', 'order', 'group', 'table', 'key', 'select', 'from', 'where', 'index', 'check', 'default', 'date', 'time', 'values', 'primary', 'foreign', 'references', 'unique', 'column', 'desc', 'asc', 'limit']);
+
+export const generateSQL = (schema: RelationalSchema, dialect: SqlDialect): string => {
+  const spec = DIALECTS[dialect];
+  const ident = (name: string) => (/^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !RESERVED.has(name.toLowerCase()) ? name : spec.quote(name));
+  const list = (names: string[]) => names.map(ident).join(', ');
+  const byName = new Map(schema.tables.map(t => [t.name, t]));
+
+  // Tipo de una columna: las claves ajenas heredan el de la columna referenciada
+  const typeOf = (table: RelationalTable, column: RelationalColumn, seen = new Set<string>()): string => {
+    if (column.kind === 'surrogate') return spec.integer;
+    if (column.kind === 'flag') return spec.boolean;
+    const fk = table.foreignKeys.find(f => f.columns.includes(column.name));
+    const key = `${table.name}.${column.name}`;
+    if (fk && !seen.has(key)) {
+      seen.add(key);
+      const refTable = byName.get(fk.table);
+      const refColumn = refTable?.columns.find(c => c.name === fk.referencedColumns[fk.columns.indexOf(column.name)]);
+      if (refTable && refColumn) return typeOf(refTable, refColumn, seen);
+    }
+    return spec.text;
+  };
+
+  const foreignKeyClause = (fk: ForeignKey) =>
+    `FOREIGN KEY (${list(fk.columns)}) REFERENCES ${ident(fk.table)} (${list(fk.referencedColumns)})${fk.onDelete === 'cascade' ? ' ON DELETE CASCADE' : ''}`;
+
+  // Orden de creación: primero las tablas referenciadas. Las referencias
+  // circulares se resuelven después con ALTER TABLE (salvo en SQLite).
+  const ordered: RelationalTable[] = [];
+  const visiting = new Set<string>();
+  const visit = (table: RelationalTable) => {
+    if (ordered.includes(table) || visiting.has(table.name)) return;
+    visiting.add(table.name);
+    table.foreignKeys.forEach(fk => {
+      const ref = byName.get(fk.table);
+      if (ref && ref !== table) visit(ref);
+    });
+    visiting.delete(table.name);
+    ordered.push(table);
+  };
+  if (spec.alterForeignKeys) schema.tables.forEach(visit);
+  else ordered.push(...schema.tables);
+
+  const created = new Set<string>();
+  const deferred: { table: RelationalTable; fk: ForeignKey; index: number }[] = [];
+  const out: string[] = [`-- Esquema generado por EER Studio (${SQL_DIALECTS[dialect]})`, '', ...spec.preamble];
+
+  ordered.forEach(table => {
+    const body: string[] = table.columns.map(column => {
+      const isIdentity = column.kind === 'surrogate' && table.primaryKey.length === 1 && table.primaryKey[0] === column.name
+        && !table.foreignKeys.some(f => f.columns.includes(column.name));
+      return `  ${ident(column.name)} ${typeOf(table, column)}${isIdentity ? spec.identity : ''}${column.nullable ? '' : ' NOT NULL'}`;
+    });
+    if (table.primaryKey.length) body.push(`  PRIMARY KEY (${list(table.primaryKey)})`);
+    table.unique.forEach(u => body.push(`  UNIQUE (${list(u)})`));
+    table.foreignKeys.forEach((fk, index) => {
+      if (!spec.alterForeignKeys || fk.table === table.name || created.has(fk.table)) {
+        body.push(`  ${foreignKeyClause(fk)}`);
+      } else {
+        deferred.push({ table, fk, index });
+      }
+    });
+    created.add(table.name);
+    out.push(`CREATE TABLE ${ident(table.name)} (`, body.join(',\n'), `)${spec.tableSuffix};`, '');
+  });
+
+  deferred.forEach(({ table, fk, index }) => {
+    out.push(`ALTER TABLE ${ident(table.name)} ADD CONSTRAINT ${ident(`fk_${table.name}_${index + 1}`)} ${foreignKeyClause(fk)};`);
+  });
+  if (deferred.length) out.push('');
+
+  return out.join('\n');
+};
@@ -0,0 +1,366 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import { parseDocument } from './parser';
+import { printDocument } from './printer';
+import { layoutDocument } from './layout';
+
+/**
+ * INGENIERÍA INVERSA: lee scripts CREATE TABLE (PostgreSQL, MySQL, SQLite)
+ * y genera código .eer ya distribuido:
+ * - tablas cuya clave primaria está formada sólo por claves ajenas -> relación M:N (o n-aria)
+ * - tablas cuya clave primaria contiene una clave ajena -> entidad débil + relación identificativa
+ * - resto de claves ajenas -> relaciones 1:N (1:1 si son UNIQUE)
+ */
+
+export interface SqlForeignKey {
+  columns: string[];
+  table: string;
+  referencedColumns: string[];
+}
+
+export interface SqlColumn {
+  name: string;
+  notNull: boolean;
+}
+
+export interface SqlTable {
+  name: string;
+  columns: SqlColumn[];
+  primaryKey: string[];
+  foreignKeys: SqlForeignKey[];
+  unique: string[][];
+}
+
+export interface SqlImportResult {
+  code: string;
+  warnings: string[];
+}
+
+type SqlToken = { kind: 'word' | 'ident' | 'string' | 'punct'; text: string };
+
+const tokenizeSql = (sql: string): SqlToken[] => {
+  const tokens: SqlToken[] = [];
+  let pos = 0;
+  while (pos < sql.length) {
+    const ch = sql[pos];
+    const rest = sql.slice(pos);
+    if (/\s/.test(ch)) {
+      pos++;
+    } else if (rest.startsWith('--') || rest.startsWith('#')) {
+      const end = sql.indexOf('\n', pos);
+      pos = end === -1 ? sql.length : end + 1;
+    } else if (rest.startsWith('/*')) {
+      const end = sql.indexOf('*/', pos + 2);
+      pos = end === -1 ? sql.length : end + 2;
+    } else if (ch === '"' || ch === '`' || ch === '[') {
+      const close = ch === '[' ? ']' : ch;
+      const end = sql.indexOf(close, pos + 1);
+      tokens.push({ kind: 'ident', text: sql.slice(pos + 1, end === -1 ? sql.length : end) });
+      pos = end === -1 ? sql.length : end + 1;
+    } else if (ch === "'") {
+      let end = pos + 1;
+      while (end < sql.length && !(sql[end] === "'" && sql[end + 1] !== "'")) end += sql[end] === "'" ? 2 : 1;
+      tokens.push({ kind: 'string', text: sql.slice(pos, end + 1) });
+      pos = end + 1;
+    } else if (/[(),;.]/.test(ch)) {
+      tokens.push({ kind: 'punct', text: ch });
+      pos++;
+    } else {
+      const match = rest.match(/^[^\s(),;."`[']+/);
+      const text = match ? match[0] : ch;
+      tokens.push({ kind: 'word', text });
+      pos += text.length;
+    }
+  }
+  return tokens;
+};
+
+// Divide por un separador al nivel 0 de paréntesis
+const splitTopLevel = (tokens: SqlToken[], separator: string) => {
+  const groups: SqlToken[][] = [[]];
+  let depth = 0;
+  tokens.forEach(t => {
+    if (t.kind === 'punct' && t.text === '(') depth++;
+    if (t.kind === 'punct' && t.text === ')') depth--;
+    if (depth === 0 && t.kind === 'punct' && t.text === separator) groups.push([]);
+    else groups[groups.length - 1].push(t);
+  });
+  return groups.filter(g => g.length > 0);
+};
+
+const isWord = (t: SqlToken | undefined, ...words: string[]) => !!t && t.kind === 'word' && words.includes(t.text.toUpperCase());
+
+export const importSQL = (sql: string): SqlImportResult => {
+  const warnings: string[] = [];
+  const tables: SqlTable[] = [];
+  const findTable = (name: string) => tables.find(t => t.name.toLowerCase() === name.toLowerCase());
+
+  // Lee un nombre posiblemente cualificado (esquema.tabla) y devuelve la última parte
+  const readName = (tokens: SqlToken[], i: number): [string, number] => {
+    let name = tokens[i]?.text ?? '';
+    i++;
+    while (tokens[i]?.text === '.' && tokens[i + 1]) {
+      name = tokens[i + 1].text;
+      i += 2;
+    }
+    return [name, i];
+  };
+
+  const readColumnList = (tokens: SqlToken[], i: number): [string[], number] => {
+    const columns: string[] = [];
+    if (tokens[i]?.text !== '(') return [columns, i];
+    i++;
+    while (i < tokens.length && tokens[i].text !== ')') {
+      if (tokens[i].text !== ',') columns.push(tokens[i].text);
+      // Ignorar longitudes o direcciones de ordenación: col(10) ASC
+      if (tokens[i + 1]?.text === '(') while (i < tokens.length && tokens[i].text !== ')') i++;
+      i++;
+      while (isWord(tokens[i], 'ASC', 'DESC')) i++;
+    }
+    return [columns, i + 1];
+  };
+
+  const readReference = (tokens: SqlToken[], i: number): [{ table: string; columns: string[] }, number] => {
+    const [table, next] = readName(tokens, i);
+    const [columns, after] = readColumnList(tokens, next);
+    return [{ table, columns }, after];
+  };
+
+  // Restricción de tabla (PRIMARY KEY, FOREIGN KEY, UNIQUE...); devuelve false si no lo es
+  const readTableConstraint = (table: SqlTable, def: SqlToken[]) => {
+    let i = 0;
+    if (isWord(def[i], 'CONSTRAINT')) i += 2;
+    if (isWord(def[i], 'PRIMARY') && isWord(def[i + 1], 'KEY')) {
+      table.primaryKey = readColumnList(def, i + 2)[0];
+    } else if (isWord(def[i], 'FOREIGN') && isWord(def[i + 1], 'KEY')) {
+      let j = i + 2;
+      if (def[j]?.text !== '(') j++; // MySQL: FOREIGN KEY nombre (cols)
+      const [columns, next] = readColumnList(def, j);
+      if (!isWord(def[next], 'REFERENCES')) return true;
+      const [ref] = readReference(def, next + 1);
+      table.foreignKeys.push({ columns, table: ref.table, referencedColumns: ref.columns });
+    } else if (isWord(def[i], 'UNIQUE')) {
+      let j = i + 1;
+      while (j < def.length && def[j].text !== '(') j++; // UNIQUE [KEY|INDEX] [nombre] (cols)
+      table.unique.push(readColumnList(def, j)[0]);
+    } else if (isWord(def[i], 'KEY', 'INDEX', 'CHECK', 'FULLTEXT', 'SPATIAL', 'EXCLUDE')) {
+      // Índices y comprobaciones no aportan información al diagrama
+    } else {
+      return false;
+    }
+    return true;
+  };
+
+  const readColumn = (table: SqlTable, def: SqlToken[]) => {
+    const name = def[0].text;
+    const column: SqlColumn = { name, notNull: false };
+    table.columns.push(column);
+    for (let i = 1; i < def.length; i++) {
+      if (isWord(def[i], 'PRIMARY') && isWord(def[i + 1], 'KEY')) {
+        table.primaryKey = [name];
+        column.notNull = true;
+      } else if (isWord(def[i], 'NOT') && isWord(def[i + 1], 'NULL')) {
+        column.notNull = true;
+      } else if (isWord(def[i], 'UNIQUE')) {
+        table.unique.push([name]);
+      } else if (isWord(def[i], 'REFERENCES')) {
+        const [ref, next] = readReference(def, i + 1);
+        table.foreignKeys.push({ columns: [name], table: ref.table, referencedColumns: ref.columns });
+        i = next - 1;
+      }
+    }
+  };
+
+  splitTopLevel(tokenizeSql(sql), ';').forEach(stmt => {
+    if (isWord(stmt[0], 'CREATE')) {
+      let i = 1;
+      while (isWord(stmt[i], 'TEMP', 'TEMPORARY', 'UNLOGGED', 'GLOBAL', 'LOCAL')) i++;
+      if (!isWord(stmt[i], 'TABLE')) {
+        warnings.push(`Se ignora la sentencia 'CREATE ${stmt[i]?.text ?? ''}'.`);
+        return;
+      }
+      i++;
+      if (isWord(stmt[i], 'IF') && isWord(stmt[i + 1], 'NOT') && isWord(stmt[i + 2], 'EXISTS')) i += 3;
+      const [name, next] = readName(stmt, i);
+      if (stmt[next]?.text !== '(') {
+        warnings.push(`No se entiende la definición de la tabla '${name}' (¿CREATE TABLE ... AS SELECT?).`);
+        return;
+      }
+      // Cuerpo entre el primer '(' y su cierre
+      let depth = 0;
+      let end = next;
+      for (; end < stmt.length; end++) {
+        if (stmt[end].text === '(') depth++;
+        if (stmt[end].text === ')' && --depth === 0) break;
+      }
+      const table: SqlTable = { name, columns: [], primaryKey: [], foreignKeys: [], unique: [] };
+      splitTopLevel(stmt.slice(next + 1, end), ',').forEach(def => {
+        if (!readTableConstraint(table, def)) readColumn(table, def);
+      });
+      tables.push(table);
+    } else if (isWord(stmt[0], 'ALTER') && isWord(stmt[1], 'TABLE')) {
+      let i = 2;
+      if (isWord(stmt[i], 'ONLY')) i++;
+      if (isWord(stmt[i], 'IF') && isWord(stmt[i + 1], 'EXISTS')) i += 2;
+      const [name, next] = readName(stmt, i);
+      const table = findTable(name);
+      if (!table || !isWord(stmt[next], 'ADD')) {
+        warnings.push(`Se ignora 'ALTER TABLE ${name}'.`);
+        return;
+      }
+      readTableConstraint(table, stmt.slice(next + 1));
+    } else if (stmt.length > 0 && !isWord(stmt[0], 'PRAGMA', 'SET', 'USE', 'BEGIN', 'COMMIT', 'DROP')) {
+      warnings.push(`Se ignora la sentencia '${stmt.slice(0, 3).map(t => t.text).join(' ')}...'.`);
+    }
+  });
+
+  // FOREIGN KEY ... REFERENCES t sin columnas: apuntan a la clave primaria
+  tables.forEach(t => t.foreignKeys.forEach(fk => {
+    const ref = findTable(fk.table);
+    if (!ref) {
+      warnings.push(`${t.name}: la clave ajena hacia '${fk.table}' apunta a una tabla que no está en el script.`);
+    } else {
+      fk.table = ref.name;
+      if (fk.referencedColumns.length === 0) fk.referencedColumns = ref.primaryKey;
+    }
+  }));
+
+  const code = generateEER(tables, warnings, 'un script SQL');
+  return { code: printDocument(layoutDocument(parseDocument(code))), warnings };
+};
+
+// Los identificadores del DSL no admiten espacios ni símbolos
+const toId = (name: string) => name.replace(/[^A-Za-z0-9_]/g, '_') || '_';
+
+/**
+ * Código .eer de un conjunto de tablas (también las que se leen de DBML):
+ * `origin` describe de dónde vienen en el comentario inicial.
+ */
+export const generateEER = (tables: SqlTable[], warnings: string[], origin: string) => {
+  const usedIds = new Set<string>();
+  const uniqueId = (base: string) => {
+    let id = toId(base);
+    let i = 2;
+    while (usedIds.has(id)) id = `${toId(base)}_${i++}`;
+    usedIds.add(id);
+    return id;
+  };
+  const sameColumns = (a: string[], b: string[]) => a.length === b.length && a.every(c => b.includes(c));
+  const fkColumns = (t: SqlTable) => new Set(t.foreignKeys.flatMap(fk => fk.columns));
+  const validFks = (t: SqlTable) => t.foreignKeys.filter(fk => tables.some(o => o.name === fk.table));
+
+  // Tabla intermedia: PK formada exclusivamente por 2 o más claves ajenas
+  const isJunction = (t: SqlTable) => {
+    const fks = validFks(t);
+    return fks.length >= 2 && t.primaryKey.length > 0
+      && t.primaryKey.every(c => fks.some(fk => fk.columns.includes(c)))
+      && fks.filter(fk => fk.columns.every(c => t.primaryKey.includes(c))).length >= 2;
+  };
+
+  const lines: string[] = [`// Diagrama generado a partir de ${origin}`];
+  warnings.forEach(w => lines.push(`// Aviso: ${w}`));
+  const relLines: string[] = [];
+
+  // Relaciones recursivas: cada conexión lleva como rol el nombre de su clave ajena
+  const roleOf = (fk: SqlForeignKey) => toId(fk.columns.join('_'));
+  const recursiveWarning = (rel: string, roles: string[]) => {
+    warnings.push(`La relación '${rel}' es recursiva: se le asignan los roles ${roles.map(r => `'${r}'`).join(', ')}.`);
+    relLines.push(`// Aviso: ${warnings[warnings.length - 1]}`);
+  };
+
+  // Claves (compuestas si tienen varias columnas) y resto de columnas como atributos
+  const attributeLines = (owner: string, columns: SqlColumn[], keys: { keyword: string; columns: string[] }[]) => {
+    const inKey = new Set(keys.flatMap(k => k.columns));
+    keys.forEach(key => {
+      if (key.columns.length === 1) {
+        lines.push(`${key.keyword} ${toId(key.columns[0])} -> ${owner}`);
+      } else {
+        const composite = toId(key.columns.join('_'));
+        lines.push(`${key.keyword} ${composite} -> ${owner}`);
+        key.columns.forEach(c => lines.push(`att ${toId(c)} -> ${owner}.${composite}`));
+      }
+    });
+    columns.filter(c => !inKey.has(c.name)).forEach(c => lines.push(`att ${toId(c.name)} -> ${owner}`));
+  };
+
+  // Los nombres de las entidades tienen preferencia sobre los de las relaciones
+  tables.filter(t => !isJunction(t)).forEach(t => usedIds.add(toId(t.name)));
+
+  tables.filter(t => !isJunction(t)).forEach(t => {
+    const id = toId(t.name);
+    const fkCols = fkColumns(t);
+    const identifying = validFks(t).filter(fk => fk.columns.every(c => t.primaryKey.includes(c)));
+    const ownColumns = t.columns.filter(c => !fkCols.has(c.name));
+    const ownKey = t.primaryKey.filter(c => !fkCols.has(c));
+    const candidateKeys = t.unique
+      .filter(u => u.every(c => !fkCols.has(c)) && !sameColumns(u, t.primaryKey))
+      .map(columns => ({ keyword: 'key_att', columns }));
+
+    lines.push('');
+    if (identifying.length > 0) {
+      // Entidad débil: su clave contiene la de su(s) propietaria(s)
+      lines.push(`weak_ent ${id}`);
+      attributeLines(id, ownColumns, [...(ownKey.length ? [{ keyword: 'partial_key_att', columns: ownKey }] : []), ...candidateKeys]);
+      identifying.forEach(fk => {
+        const owner = toId(fk.table);
+        const rel = uniqueId(`${owner}_${id}`);
+        relLines.push('', `ident_rel ${rel}`, `link ${owner} ${rel} "1"`, `link ${id} ${rel} "${ownKey.length ? 'N' : '1'}" [total]`);
+      });
+      if (ownKey.length === 0) {
+        warnings.push(`${t.name}: la clave primaria es sólo una clave ajena (relación identificativa 1:1).`);
+        lines.push(`// Aviso: ${warnings[warnings.length - 1]}`);
+      }
+    } else {
+      lines.push(`ent ${id}`);
+      const keys = [...(ownKey.length ? [{ keyword: 'key_att', columns: ownKey }] : []), ...candidateKeys];
+      attributeLines(id, ownColumns, keys);
+      if (keys.length === 0) {
+        warnings.push(`${t.name} no tiene clave primaria propia.`);
+        lines.push(`// Aviso: ${warnings[warnings.length - 1]}`);
+      }
+    }
+
+    // Claves ajenas que no forman parte de la clave: relaciones 1:N o 1:1
+    validFks(t).filter(fk => !identifying.includes(fk)).forEach(fk => {
+      const target = toId(fk.table);
+      const rel = uniqueId(`${id}_${target}`);
+      const oneToOne = t.unique.some(u => sameColumns(u, fk.columns)) || sameColumns(t.primaryKey, fk.columns);
+      const total = fk.columns.every(c => t.columns.find(col => col.name === c)?.notNull || t.primaryKey.includes(c));
+      relLines.push('', `rel ${rel}`);
+      // Autorreferencia (p. ej. jefe_id): la clave ajena nombra a la fila referenciada; la que la contiene es el origen
+      const roles = target === id ? [roleOf(fk) === 'origen' ? 'referencia' : 'origen', roleOf(fk)] : undefined;
+      if (roles) recursiveWarning(rel, roles);
+      relLines.push(
+        `link ${id} ${rel} "${oneToOne ? '1' : 'N'}"${roles ? ` role:${roles[0]}` : ''}${total ? ' [total]' : ''}`,
+        `link ${target} ${rel} "1"${roles ? ` role:${roles[1]}` : ''}`,
+      );
+    });
+  });
+
+  // Tablas intermedias -> relaciones M:N o n-arias con sus atributos
+  tables.filter(isJunction).forEach(t => {
+    const id = uniqueId(t.name);
+    const fks = validFks(t);
+    const fkCols = fkColumns(t);
+    relLines.push('', `rel ${id}`);
+    const binary = fks.length === 2;
+    // Una entidad que participa más de una vez necesita un rol en cada conexión
+    const recursive = fks.some((fk, i) => fks.findIndex(o => o.table === fk.table) !== i);
+    if (recursive) recursiveWarning(id, fks.map(roleOf));
+    fks.forEach((fk, i) => {
+      const inKey = fk.columns.every(c => t.primaryKey.includes(c));
+      const cardinality = !inKey ? '1' : binary ? (i === 0 ? 'M' : 'N') : 'N';
+      relLines.push(`link ${toId(fk.table)} ${id} "${cardinality}"${recursive ? ` role:${roleOf(fk)}` : ''}`);
+    });
+    t.columns.filter(c => !fkCols.has(c.name)).forEach(c => relLines.push(`att ${toId(c.name)} -> ${id}`));
+  });
+
+  return [...lines, ...relLines, ''].join('\n');
+};
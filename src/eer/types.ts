@@ -0,0 +1,76 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+/**
+ * DEFINICIÓN DE TIPOS del modelo que se dibuja en el canvas
+ */
+export type NodeType = 'entity' | 'weak_entity' | 'relationship' | 'identifying_relationship' | 'attribute' | 'key_attribute' | 'partial_key_attribute' | 'multivalued_attribute' | 'derived_attribute' | 'specialization' | 'union';
+
+export interface NodeData {
+  id: string;
+  type: NodeType;
+  label: string;
+  x: number;
+  y: number;
+  meta?: string; // Para 'd', 'o', 'u' en especializaciones
+  definingAttribute?: string; // Especialización definida por atributo (spec d on ATRIBUTO)
+  total?: boolean; // Participación de la superclase en una especialización (false con [partial])
+  owner?: string; // ID del propietario de un atributo (entidad, relación u otro atributo si es compuesto)
+  lineIndex: number; // Para saber qué línea actualizar
+  file?: string; // Archivo incluido que lo define (sin valor, el principal); lineIndex es de ese archivo
+}
+
+// Restricción estructural (min,max): cuántas veces participa cada ocurrencia de la entidad en la relación
+export interface StructuralConstraint {
+  min: number;
+  max: number | 'N' | 'M';
+}
+
+export interface LinkData {
+  source: string;
+  target: string;
+  label?: string; // Cardinalidad o Rol
+  role?: string; // Papel de la entidad en la relación (role:NOMBRE), imprescindible en las recursivas
+  style?: 'double' | 'solid'; // Para participación total
+  constraint?: StructuralConstraint;
+  lineIndex: number; // Línea que define la conexión
+  file?: string; // Archivo incluido que la define (sin valor, el principal)
+}
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface Diagnostic {
+  line: number; // 1-based, como en el editor
+  column: number; // 1-based
+  severity: DiagnosticSeverity;
+  message: string;
+  rule?: string; // Regla semántica que lo genera (ver validate.ts)
+  file?: string; // Archivo incluido en el que está (sin valor, el principal)
+}
+
+// Elemento de una vista; sin posición propia se dibuja donde está en el diagrama completo
+export interface ViewNode {
+  id: string;
+  position?: { x: number; y: number };
+  lineIndex: number; // Línea 'show' que lo coloca
+}
+
+// Vista con nombre (view NOMBRE): un subconjunto de los nodos con sus propias posiciones
+export interface ViewData {
+  name: string;
+  lineIndex: number; // Línea 'view NOMBRE'
+  nodes: ViewNode[];
+}
+
+export interface ParseResult {
+  nodes: NodeData[];
+  links: LinkData[];
+  views: ViewData[];
+  diagnostics: Diagnostic[];
+}
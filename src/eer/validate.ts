@@ -0,0 +1,217 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import type { EERDocument } from './ast';
+import type { Diagnostic, LinkData, NodeData } from './types';
+
+/**
+ * VALIDACIÓN SEMÁNTICA: reglas del modelo EER que el parser no comprueba
+ * (el código es sintácticamente correcto pero el diagrama no lo es).
+ * Cada regla se puede desactivar; los avisos apuntan a la línea que los causa.
+ */
+export type ValidationRule =
+  | 'weak-entity'
+  | 'identifying-total'
+  | 'relationship-arity'
+  | 'cardinality'
+  | 'cardinality-coherence'
+  | 'recursive-roles'
+  | 'relationship-attribute'
+  | 'hierarchy-attribute'
+  | 'defining-attribute'
+  | 'union-superclasses'
+  | 'entity-key';
+
+export const VALIDATION_RULES: Record<ValidationRule, { label: string; description: string }> = {
+  'weak-entity': {
+    label: 'Entidades débiles identificadas',
+    description: 'Toda entidad débil participa en una relación identificativa (ident_rel) y toda ident_rel conecta una entidad débil.',
+  },
+  'identifying-total': {
+    label: 'Participación total de la débil',
+    description: 'En una relación identificativa la entidad débil participa de forma total ([total]).',
+  },
+  'relationship-arity': {
+    label: 'Relaciones con dos o más participantes',
+    description: 'Una relación conecta al menos dos entidades (o dos veces la misma, si es recursiva).',
+  },
+  cardinality: {
+    label: 'Cardinalidades 1, N o M',
+    description: 'Las conexiones entre relación y entidad indican su cardinalidad con "1", "N" o "M" (o una restricción (min,max)).',
+  },
+  'cardinality-coherence': {
+    label: 'Cardinalidades coherentes',
+    description: 'En una relación, un participante con máximo 1 en (min,max) determina la ocurrencia completa, así que los demás tienen cardinalidad "1"; en las n-arias no se mezclan cardinalidades 1/N/M (se leen al otro lado) con restricciones (min,max) (se leen en el propio lado).',
+  },
+  'recursive-roles': {
+    label: 'Roles en relaciones recursivas',
+    description: 'Cuando una entidad participa varias veces en la misma relación, cada conexión indica su papel con role:NOMBRE.',
+  },
+  'relationship-attribute': {
+    label: 'Atributos de relación',
+    description: 'Los atributos de una relación no son clave, y los de una relación identificativa pertenecen a la entidad débil (cada débil participa una sola vez).',
+  },
+  'hierarchy-attribute': {
+    label: 'Jerarquías sin atributos',
+    description: 'Los círculos de especialización y unión sólo se conectan con entidades.',
+  },
+  'defining-attribute': {
+    label: 'Especializaciones definidas por atributo',
+    description: 'En spec d on ATRIBUTO -> SUPERCLASE el atributo pertenece a la superclase y cada subclase indica el valor que la define (link d SUBCLASE "valor").',
+  },
+  'union-superclasses': {
+    label: 'Uniones con varias superclases',
+    description: 'Una categoría (union) agrupa al menos dos superclases.',
+  },
+  'entity-key': {
+    label: 'Entidades con clave',
+    description: 'Toda entidad fuerte que no sea subclase ni categoría tiene un atributo clave (key_att).',
+  },
+};
+
+export interface ValidationOptions {
+  disabled?: ReadonlySet<ValidationRule>;
+}
+
+const CARDINALITIES = ['1', 'N', 'M'];
+
+const isAttribute = (n: NodeData) => n.type.endsWith('attribute');
+const isEntity = (n: NodeData) => n.type === 'entity' || n.type === 'weak_entity';
+const isRelationship = (n: NodeData) => n.type === 'relationship' || n.type === 'identifying_relationship';
+
+export const validateModel = (doc: EERDocument, model: { nodes: NodeData[]; links: LinkData[] }, options: ValidationOptions = {}): Diagnostic[] => {
+  const { nodes, links } = model;
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const diagnostics: Diagnostic[] = [];
+
+  // Columna del nombre del nodo (o del texto entre comillas de una conexión) para señalarla en el editor
+  const columnOf = (lineIndex: number) => {
+    const line = doc.lines[lineIndex];
+    const statement = line?.statement;
+    if (!statement) return 1;
+    if (statement.kind === 'link') return line.tokens.find(t => t.kind === 'string')?.span.column ?? statement.keyword.span.column;
+    if (statement.kind === 'include') return statement.path.span.column;
+    if (statement.kind === 'show') return statement.target.span.column;
+    return statement.name?.span.column ?? statement.keyword.span.column;
+  };
+  const report = (rule: ValidationRule, lineIndex: number, message: string) => {
+    if (options.disabled?.has(rule)) return;
+    diagnostics.push({ line: lineIndex + 1, column: columnOf(lineIndex), severity: 'warning', message, rule });
+  };
+
+  // Conexiones de un nodo con el otro extremo ya resuelto
+  const linksOf = (id: string) => links
+    .filter(l => (l.source === id || l.target === id) && byId.has(l.source) && byId.has(l.target))
+    .map(link => ({ link, other: byId.get(link.source === id ? link.target : link.source)! }));
+
+  // Subclases y categorías heredan la clave de sus superclases
+  const inheritsKey = new Set<string>();
+  nodes.forEach(h => {
+    if (h.type === 'specialization') {
+      linksOf(h.id).filter(({ link, other }) => link.lineIndex !== h.lineIndex && isEntity(other)).forEach(({ other }) => inheritsKey.add(other.id));
+    } else if (h.type === 'union') {
+      linksOf(h.id).filter(({ link, other }) => link.source === h.id && isEntity(other)).forEach(({ other }) => inheritsKey.add(other.id));
+    }
+  });
+
+  nodes.forEach(node => {
+    const connections = linksOf(node.id);
+
+    if (node.type === 'weak_entity' && !connections.some(({ other }) => other.type === 'identifying_relationship')) {
+      report('weak-entity', node.lineIndex, `La entidad débil '${node.label}' no participa en ninguna relación identificativa (ident_rel) que la relacione con su propietaria.`);
+    }
+
+    if (node.type === 'identifying_relationship') {
+      const weak = connections.filter(({ other }) => other.type === 'weak_entity');
+      if (weak.length === 0) {
+        report('weak-entity', node.lineIndex, `La relación identificativa '${node.label}' no conecta ninguna entidad débil; si no identifica a nadie, usa 'rel'.`);
+      }
+      weak.filter(({ link }) => link.style !== 'double').forEach(({ link, other }) => {
+        report('identifying-total', link.lineIndex, `'${other.label}' es débil: no existe sin su propietaria, así que su participación en '${node.label}' debe ser total ([total]).`);
+      });
+    }
+
+    if (isRelationship(node)) {
+      const participants = connections.filter(({ other }) => !isAttribute(other));
+      if (participants.length < 2) {
+        report('relationship-arity', node.lineIndex, `La relación '${node.label}' tiene ${participants.length} participante${participants.length === 1 ? '' : 's'}; necesita al menos dos (en una relación recursiva, conecta dos veces la misma entidad).`);
+      }
+      participants.filter(({ other }) => isEntity(other)).forEach(({ link, other }) => {
+        const label = link.label ?? '';
+        if (label === '') {
+          // Una restricción (min,max) ya indica la cardinalidad
+          if (!link.constraint) report('cardinality', link.lineIndex, `La conexión entre '${other.label}' y '${node.label}' no indica la cardinalidad ("1", "N" o "M", o una restricción (min,max)).`);
+        } else if (!CARDINALITIES.includes(label)) {
+          const hint = CARDINALITIES.includes(label.toUpperCase()) ? ` ¿Querías decir "${label.toUpperCase()}"?` : '';
+          report('cardinality', link.lineIndex, `Cardinalidad "${label}" no reconocida entre '${other.label}' y '${node.label}': usa "1", "N" o "M".${hint}`);
+        }
+      });
+      const entityLinks = participants.filter(({ other }) => isEntity(other));
+      entityLinks.filter(({ link }) => link.constraint?.max === 1).forEach(({ link: singleLink, other: single }) => {
+        entityLinks.filter(({ link }) => link !== singleLink && CARDINALITIES.includes(link.label ?? '') && link.label !== '1').forEach(({ link, other }) => {
+          report('cardinality-coherence', link.lineIndex, `'${single.label}' participa como máximo una vez en '${node.label}' (máximo 1), así que cada ocurrencia suya determina a '${other.label}': su cardinalidad debería ser "1", no "${link.label}".`);
+        });
+      });
+      if (entityLinks.length > 2) {
+        const chen = entityLinks.filter(({ link }) => !!link.label);
+        const minMax = entityLinks.filter(({ link }) => !link.label && link.constraint);
+        if (chen.length > 0 && minMax.length > 0) {
+          report('cardinality-coherence', node.lineIndex, `La relación '${node.label}' de grado ${entityLinks.length} mezcla cardinalidades 1/N/M (${chen.map(({ other }) => other.label).join(', ')}) y restricciones (min,max) (${minMax.map(({ other }) => other.label).join(', ')}): en una n-aria significan cosas distintas, usa una sola notación.`);
+        }
+      }
+      participants.forEach(({ link, other }) => {
+        if (!link.role && participants.filter(p => p.other.id === other.id).length > 1) {
+          report('recursive-roles', link.lineIndex, `'${other.label}' participa varias veces en '${node.label}': indica el papel de cada conexión con role:NOMBRE (por ejemplo, role:supervisor).`);
+        }
+      });
+    }
+
+    if (isRelationship(node)) {
+      connections.filter(({ link, other }) => isAttribute(other) && other.owner === node.id && link.source === node.id).forEach(({ other }) => {
+        if (other.type === 'key_attribute' || other.type === 'partial_key_attribute') {
+          report('relationship-attribute', other.lineIndex, `'${other.label}' es clave, pero está en la relación '${node.label}': las relaciones se identifican por sus participantes; usa 'att'.`);
+        } else if (node.type === 'identifying_relationship') {
+          report('relationship-attribute', other.lineIndex, `El atributo '${other.label}' está en la relación identificativa '${node.label}': cada entidad débil participa una sola vez, así que es un atributo de la débil (y así se pasa a tablas).`);
+        }
+      });
+    }
+
+    if (node.type === 'specialization' && node.definingAttribute) {
+      const superclass = connections.find(({ link, other }) => link.lineIndex === node.lineIndex && isEntity(other))?.other;
+      const defining = superclass && nodes.find(n => n.owner === superclass.id && n.label === node.definingAttribute);
+      if (superclass && !defining) {
+        report('defining-attribute', node.lineIndex, `La especialización '${node.label}' se define por '${node.definingAttribute}', que no es un atributo de su superclase '${superclass.label}'.`);
+      } else if (superclass && defining?.type === 'multivalued_attribute') {
+        report('defining-attribute', node.lineIndex, `'${node.definingAttribute}' es multivaluado: no puede decidir a qué subclase pertenece cada ocurrencia de '${superclass.label}'.`);
+      }
+      connections.filter(({ link, other }) => link.source === node.id && isEntity(other) && !link.label).forEach(({ link, other }) => {
+        report('defining-attribute', link.lineIndex, `Indica el valor de '${node.definingAttribute}' que define la subclase '${other.label}' (link ${node.label} ${other.label} "valor").`);
+      });
+    }
+
+    if (node.type === 'specialization' || node.type === 'union') {
+      connections.filter(({ other }) => isAttribute(other)).forEach(({ link, other }) => {
+        report('hierarchy-attribute', link.lineIndex, `El atributo '${other.label}' está conectado a la ${node.type === 'union' ? 'unión' : 'especialización'} '${node.label}': los atributos pertenecen a las entidades (superclase o subclases).`);
+      });
+    }
+
+    if (node.type === 'union') {
+      const superclasses = connections.filter(({ link, other }) => link.target === node.id && isEntity(other));
+      if (superclasses.length < 2) {
+        report('union-superclasses', node.lineIndex, `La unión '${node.label}' tiene ${superclasses.length} superclase${superclasses.length === 1 ? '' : 's'}; una categoría agrupa al menos dos (con una sola, es una especialización).`);
+      }
+    }
+
+    if (node.type === 'entity' && !inheritsKey.has(node.id) && !nodes.some(n => n.owner === node.id && n.type === 'key_attribute')) {
+      report('entity-key', node.lineIndex, `La entidad '${node.label}' no tiene atributo clave (key_att) que identifique cada ocurrencia.`);
+    }
+  });
+
+  return diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+};
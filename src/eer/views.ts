@@ -0,0 +1,57 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import type { LinkData, NodeData, ViewData } from './types';
+
+/**
+ * VISTAS: cada 'view NOMBRE' muestra una parte del modelo con sus propias
+ * posiciones, sin tocar las coordenadas de las líneas que definen los elementos.
+ */
+
+/**
+ * Nodos y conexiones de una vista: los elementos que muestra, con los
+ * atributos que cuelgan de ellos, en las posiciones de la vista. Un atributo
+ * sin posición propia conserva la distancia a su propietario del diagrama completo.
+ */
+export const applyView = (model: { nodes: NodeData[]; links: LinkData[] }, view: ViewData): { nodes: NodeData[]; links: LinkData[] } => {
+  const byId = new Map(model.nodes.map(n => [n.id, n]));
+  const placed = new Map(view.nodes.map(n => [n.id, n.position]));
+  const shown = new Set(view.nodes.map(n => n.id).filter(id => byId.has(id)));
+  let added = true;
+  while (added) {
+    added = false;
+    model.nodes.forEach(n => {
+      if (n.owner && shown.has(n.owner) && !shown.has(n.id)) {
+        shown.add(n.id);
+        added = true;
+      }
+    });
+  }
+
+  const positions = new Map<string, { x: number; y: number }>();
+  const positionOf = (node: NodeData): { x: number; y: number } => {
+    const known = positions.get(node.id);
+    if (known) return known;
+    positions.set(node.id, { x: node.x, y: node.y }); // Provisional, por si los propietarios formaran un ciclo
+    const own = placed.get(node.id);
+    const owner = node.owner ? byId.get(node.owner) : undefined;
+    let position = own ?? { x: node.x, y: node.y };
+    if (!own && owner && shown.has(owner.id)) {
+      const base = positionOf(owner);
+      position = { x: base.x + node.x - owner.x, y: base.y + node.y - owner.y };
+    }
+    positions.set(node.id, position);
+    return position;
+  };
+
+  return {
+    nodes: model.nodes.filter(n => shown.has(n.id)).map(n => ({ ...n, ...positionOf(n) })),
+    links: model.links.filter(l => shown.has(l.source) && shown.has(l.target)),
+  };
+};
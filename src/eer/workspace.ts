@@ -0,0 +1,129 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import type { EERDocument } from './ast';
+import type { Diagnostic, NodeData, ParseResult } from './types';
+import { parseDocument } from './parser';
+import { buildModel } from './model';
+import { setCoords } from './edit';
+import { computeLayout } from './layout';
+import { validateModel, type ValidationOptions } from './validate';
+
+/**
+ * DIAGRAMAS EN VARIOS ARCHIVOS: `include "otro.eer"` (o `import`) añade al
+ * diagrama las definiciones de otro archivo. Todos se analizan como un único
+ * documento (el principal primero, para que sus líneas conserven el índice) y
+ * cada nodo, conexión y diagnóstico recuerda después de qué archivo y línea viene.
+ */
+export interface Workspace {
+  main: string;
+  doc: EERDocument; // Principal seguido de los incluidos
+  origins: { file?: string; line: number }[]; // Por línea del documento: archivo (sin valor, el principal) y línea 0-based en él
+  diagnostics: Diagnostic[]; // Inclusiones que no se han podido resolver
+}
+
+// Ruta de `path` relativa al directorio del archivo `from` (separadores '/')
+export const resolveIncludePath = (from: string, path: string): string => {
+  const absolute = path.startsWith('/') || from.startsWith('/');
+  const base = path.startsWith('/') ? [] : from.split('/').slice(0, -1);
+  const parts = [...base, ...path.split('/')];
+  const resolved: string[] = [];
+  parts.forEach(part => {
+    if (part === '.' || part === '') return;
+    if (part === '..' && resolved.length > 0 && resolved[resolved.length - 1] !== '..') resolved.pop();
+    else resolved.push(part);
+  });
+  return (absolute ? '/' : '') + resolved.join('/');
+};
+
+/**
+ * Lee el archivo principal y, recursivamente, los que incluye (cada uno una
+ * sola vez). `read` devuelve el texto de una ruta o undefined si no está disponible.
+ */
+export const loadWorkspace = (main: string, code: string, read: (path: string) => string | undefined): Workspace => {
+  const chunks: { file?: string; code: string }[] = [];
+  const diagnostics: Diagnostic[] = [];
+  const loaded = new Set<string>([main]);
+
+  const visit = (file: string | undefined, text: string, stack: string[]) => {
+    chunks.push({ file, code: text });
+    parseDocument(text).lines.forEach(line => {
+      const statement = line.statement;
+      if (statement?.kind !== 'include') return;
+      const target = resolveIncludePath(file ?? main, statement.path.value);
+      const at = { line: line.index + 1, column: statement.path.span.column, file };
+      if (stack.includes(target)) {
+        diagnostics.push({ ...at, severity: 'error', message: `Inclusión circular: ${[...stack, target].join(' → ')}.` });
+        return;
+      }
+      if (loaded.has(target)) return;
+      const included = read(target);
+      if (included === undefined) {
+        diagnostics.push({ ...at, severity: 'error', message: `No se encuentra el archivo '${statement.path.value}' (ábrelo junto al diagrama).` });
+        return;
+      }
+      loaded.add(target);
+      visit(target, included, [...stack, target]);
+    });
+  };
+  visit(undefined, code, [main]);
+
+  const origins = chunks.flatMap(chunk => chunk.code.split('\n').map((_, line) => ({ file: chunk.file, line })));
+  return { main, doc: parseDocument(chunks.map(chunk => chunk.code).join('\n')), origins, diagnostics };
+};
+
+/**
+ * Modelo y validación del conjunto, con cada elemento situado en su archivo:
+ * las referencias entre archivos se resuelven como si fueran uno solo.
+ */
+export const buildWorkspaceModel = (workspace: Workspace, options: ValidationOptions = {}): ParseResult => {
+  const model = buildModel(workspace.doc);
+  const semantic = validateModel(workspace.doc, model, options);
+  // Los elementos del principal ya están en su línea; los de un incluido pasan a la de su archivo
+  const originOf = (index: number) => workspace.origins[index] ?? { line: index };
+  return {
+    nodes: model.nodes.map(n => {
+      const { file, line } = originOf(n.lineIndex);
+      return file ? { ...n, file, lineIndex: line } : n;
+    }),
+    links: model.links.map(l => {
+      const { file, line } = originOf(l.lineIndex);
+      return file ? { ...l, file, lineIndex: line } : l;
+    }),
+    // Las vistas son del principal: se descartan las de los incluidos y sus líneas 'show'
+    views: model.views
+      .filter(v => !originOf(v.lineIndex).file)
+      .map(v => ({ ...v, nodes: v.nodes.filter(n => !originOf(n.lineIndex).file) })),
+    diagnostics: [...model.diagnostics, ...semantic]
+      .map(d => {
+        const { file, line } = originOf(d.line - 1);
+        return file ? { ...d, file, line: line + 1 } : d;
+      })
+      .concat(workspace.diagnostics)
+      .sort((a, b) => (a.file ?? '').localeCompare(b.file ?? '') || a.line - b.line || a.column - b.column),
+  };
+};
+
+/**
+ * Distribución automática del archivo principal (`doc`) contando con los
+ * incluidos: sus nodos se quedan donde están y sólo se escriben las
+ * coordenadas del principal. Con `keepExisting` tampoco se mueven los nodos
+ * del principal que ya tienen coordenadas.
+ */
+export const layoutWorkspace = (workspace: Workspace, doc: EERDocument, options: { keepExisting?: boolean } = {}): EERDocument => {
+  const { nodes, links } = buildModel(workspace.doc);
+  const own = (n: NodeData) => workspace.origins[n.lineIndex]?.file === undefined;
+  const hasCoords = (n: NodeData) => {
+    const statement = workspace.doc.lines[n.lineIndex].statement;
+    return !!statement && statement.kind !== 'link' && statement.kind !== 'include' && statement.kind !== 'view' && !!statement.coords;
+  };
+  const fixed = new Set(nodes.filter(n => !own(n) || (options.keepExisting && hasCoords(n))).map(n => n.id));
+  const positions = computeLayout(nodes, links, { fixed });
+  return nodes.filter(n => !fixed.has(n.id)).reduce((current, n) => setCoords(current, n.lineIndex, positions.get(n.id)!), doc);
+};
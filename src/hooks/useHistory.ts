@@ -0,0 +1,81 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import { useCallback, useRef, useState } from 'react';
+
+const MAX_ENTRIES = 200;
+const COALESCE_MS = 1000; // Cambios del mismo grupo más seguidos que esto se funden en una entrada
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+export interface History<T> {
+  present: T;
+  /**
+   * Registra un cambio, con el valor nuevo o una función que lo calcula a partir del actual.
+   * Los cambios seguidos del mismo `group` (p. ej. al escribir) se agrupan.
+   */
+  set: (next: T | ((present: T) => T), group?: string) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+/**
+ * HISTORIAL de deshacer/rehacer basado en instantáneas (el código y los
+ * archivos incluidos). Todas las modificaciones (editor, arrastres, menús)
+ * pasan por `set`; un valor igual (===) al actual no crea entrada.
+ */
+export function useHistory<T>(initial: T): History<T> {
+  const [state, setState] = useState<HistoryState<T>>({ past: [], present: initial, future: [] });
+  const lastChange = useRef<{ group?: string; time: number }>({ time: 0 });
+
+  const set = useCallback((update: T | ((present: T) => T), group?: string) => {
+    const now = Date.now();
+    const merge = group !== undefined && group === lastChange.current.group && now - lastChange.current.time < COALESCE_MS;
+    lastChange.current = { group, time: now };
+    setState(s => {
+      const next = typeof update === 'function' ? (update as (present: T) => T)(s.present) : update;
+      if (next === s.present) return s;
+      if (merge) return { ...s, present: next, future: [] };
+      return { past: [...s.past, s.present].slice(-MAX_ENTRIES), present: next, future: [] };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    lastChange.current = { time: 0 };
+    setState(s => (s.past.length === 0 ? s : {
+      past: s.past.slice(0, -1),
+      present: s.past[s.past.length - 1],
+      future: [s.present, ...s.future],
+    }));
+  }, []);
+
+  const redo = useCallback(() => {
+    lastChange.current = { time: 0 };
+    setState(s => (s.future.length === 0 ? s : {
+      past: [...s.past, s.present],
+      present: s.future[0],
+      future: s.future.slice(1),
+    }));
+  }, []);
+
+  return {
+    present: state.present,
+    set,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+  };
+}
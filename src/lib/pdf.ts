@@ -0,0 +1,55 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+/**
+ * PDF mínimo de una página con una imagen JPEG a página completa.
+ * Se escribe a mano (catálogo, página, imagen y contenido) para no depender
+ * de ninguna librería; los visores aceptan el JPEG tal cual (DCTDecode).
+ */
+export const createImagePdf = (jpeg: Uint8Array, imageWidth: number, imageHeight: number, pageWidth: number, pageHeight: number): Uint8Array => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const object = (id: number, body: string) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\nendobj\n`);
+  };
+
+  const w = pageWidth.toFixed(2);
+  const h = pageHeight.toFixed(2);
+  const content = `q ${w} 0 0 ${h} 0 0 cm /Im0 Do Q`;
+
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  object(2, '<< /Type /Pages /Kids [3 0 R] /Count 1 >>');
+  object(3, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${w} ${h}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>`);
+  offsets[4] = length;
+  write(`4 0 obj\n<< /Type /XObject /Subtype /Image /Width ${imageWidth} /Height ${imageHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`);
+  write(jpeg);
+  write('\nendstream\nendobj\n');
+  object(5, `<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+
+  const xref = length;
+  write(`xref\n0 6\n0000000000 65535 f \n${offsets.slice(1).map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('')}`);
+  write(`trailer\n<< /Size 6 /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+  const result = new Uint8Array(length);
+  let position = 0;
+  chunks.forEach(chunk => {
+    result.set(chunk, position);
+    position += chunk.length;
+  });
+  return result;
+};
@@ -0,0 +1,80 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readdirSync, readFileSync } from 'node:fs';
+import { buildModel, parseDocument, printDocument, setCoords } from '../dist-test/eer.js';
+
+const examples = readdirSync(new URL('../ejemplos/', import.meta.url))
+  .filter(name => name.endsWith('.eer'))
+  .map(name => [name, readFileSync(new URL(`../ejemplos/${name}`, import.meta.url), 'utf8')]);
+
+const roundTrip = code => printDocument(parseDocument(code));
+
+test('el printer devuelve los ejemplos sin cambios', () => {
+  assert.ok(examples.length > 0);
+  examples.forEach(([name, code]) => assert.equal(roundTrip(code), code, name));
+});
+
+test('el printer conserva saltos de línea, comentarios, espacios y líneas erróneas', () => {
+  const inputs = [
+    '',
+    '\n\n',
+    'ent A\r\nrel R (10, 20)\r\nlink A R "1"\r\n',
+    'ent A\nrel R\n',
+    'ent A\n\n\n// comentario\n   \t\nent B',
+    '  ent   A   (1,2)   // al final  \n',
+    'ent A // (1, 2) dentro del comentario\n',
+    'ent\nlink A\nfoo bar baz\natt X ->\n',
+    'ent A (1, \nlink A B "sin cerrar\n',
+    'ent A\r\nent B\nent C\r\n',
+  ];
+  inputs.forEach(code => assert.equal(roundTrip(code), code, JSON.stringify(code)));
+});
+
+test('setCoords sólo cambia las coordenadas de la línea', () => {
+  const code = 'ent A   // cliente\r\nent B (1, 2)\r\n';
+  const doc = setCoords(setCoords(parseDocument(code), 0, { x: 10, y: 20 }), 1, { x: 3, y: 4 });
+  const lines = printDocument(doc).split('\r\n');
+  assert.match(lines[0], /^ent A \(10, 20\)\s+\/\/ cliente$/);
+  assert.equal(lines[1], 'ent B (3, 4)');
+  assert.equal(lines[2], '');
+});
+
+test('buildModel construye el ejemplo del hotel', () => {
+  const [, code] = examples.find(([name]) => /hotel/i.test(name));
+  const { nodes, links, diagnostics } = buildModel(parseDocument(code));
+  assert.deepEqual(diagnostics.filter(d => d.severity === 'error'), []);
+
+  const byLabel = label => nodes.find(n => n.label === label);
+  assert.equal(byLabel('HOTEL').type, 'entity');
+  assert.deepEqual([byLabel('HOTEL').x, byLabel('HOTEL').y], [150, 100]);
+  assert.equal(byLabel('HABITACION').type, 'weak_entity');
+  assert.equal(byLabel('TIENE').type, 'identifying_relationship');
+  ['SERVICIO', 'RESTAURANTE', 'SPA', 'SALON_EVENTOS'].forEach(label => assert.equal(byLabel(label)?.type, 'entity', label));
+
+  // Todas las conexiones apuntan a nodos definidos
+  const ids = new Set(nodes.map(n => n.id));
+  links.forEach(l => assert.ok(ids.has(l.source) && ids.has(l.target), `${l.source} - ${l.target}`));
+
+  const tiene = links.find(l => l.source === byLabel('HABITACION').id && l.target === byLabel('TIENE').id);
+  assert.equal(tiene.label, 'N');
+  assert.equal(tiene.style, 'double');
+
+  // La especialización cuelga de SERVICIO y une sus tres subclases
+  const spec = nodes.find(n => n.type === 'specialization');
+  assert.ok(links.some(l => l.source === byLabel('SERVICIO').id && l.target === spec.id));
+  const subclasses = links.filter(l => l.source === spec.id || (l.target === spec.id && l.source !== byLabel('SERVICIO').id));
+  assert.equal(subclasses.length, 3);
+
+  // Los atributos se unen a su propietario
+  const nombre = nodes.find(n => n.label === 'Nombre' && n.type === 'key_attribute' && links.some(l => l.target === n.id && l.source === byLabel('HOTEL').id));
+  assert.ok(nombre);
+});
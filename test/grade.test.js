@@ -0,0 +1,33 @@
+/**
+ * EER Studio - Enhanced Entity-Relationship Diagram Editor
+ * Copyright (c) 2025 David Bueno Vallejo
+ * 
+ * Developed with the assistance of Gemini and GitHub Copilot AI
+ * 
+ * This software is provided as-is, without warranty of any kind.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildModel, gradeModel, parseDocument } from '../dist-test/eer.js';
+
+const model = code => buildModel(parseDocument(code));
+const entities = 'ent A\nkey_att a -> A\nent B\nkey_att b -> B\nrel R\n';
+const cardinalities = report => report.categories.find(c => c.id === 'cardinalities').items;
+
+test('una solución (min,max) y una entrega en Chen equivalente tienen la nota máxima', () => {
+  const reference = model(`${entities}link A R (0,N)\nlink B R (1,1)\n`);
+  const submission = model(`${entities}link A R "1"\nlink B R "N" [total]\n`);
+  const report = gradeModel(reference, submission);
+  assert.equal(report.score, report.maxScore);
+  assert.ok(cardinalities(report).every(item => item.status === 'correct'));
+  assert.equal(gradeModel(submission, reference).score, report.maxScore);
+});
+
+test('la cardinalidad cambiada se marca aunque las notaciones sean distintas', () => {
+  const reference = model(`${entities}link A R (0,N)\nlink B R (1,1)\n`);
+  const submission = model(`${entities}link A R "N"\nlink B R "1" [total]\n`);
+  const items = cardinalities(gradeModel(reference, submission));
+  assert.deepEqual(items.map(item => item.status), ['partial', 'partial']);
+  assert.match(items[0].message, /\(0,1\) en lugar de \(0,N\)/);
+});
@@ -0,0 +1,19 @@
+import { defineConfig } from 'vite'
+import react from '@vitejs/plugin-react'
+
+// CLI para Node (bin "eer"): se compila en modo SSR, las dependencias quedan externas.
+export default defineConfig({
+  plugins: [react()],
+  publicDir: false,
+  build: {
+    ssr: 'cli/eer.tsx',
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'eer.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})
@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite'
+
+// Pruebas (npm test): el núcleo del DSL se compila para Node y node --test lo importa ya construido.
+export default defineConfig({
+  publicDir: false,
+  logLevel: 'warn',
+  build: {
+    ssr: 'src/eer/index.ts',
+    outDir: 'dist-test',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'eer.js',
+      },
+    },
+  },
+})